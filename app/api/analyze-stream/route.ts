@@ -1,9 +1,20 @@
 import { NextRequest } from 'next/server'
-import * as XLSX from 'xlsx'
-import { parseExcelFile, transformRawData, validateExcelStructure } from '@/lib/excelProcessor'
-import { batchCategorizeCallsWithProgress, generateReportWithGemini, setModelConfig, ModelConfig, LogCallback } from '@/lib/gemini'
+import { parseCallFile, parseSheetSelection, validateExcelStructure, validateRows } from '@/lib/excelProcessor'
+import { detectFileFormat, UNSUPPORTED_FORMAT_ERROR } from '@/lib/fileFormats'
+import { batchCategorizeCallsWithProgress, generateReportWithGemini, ModelConfig, LogCallback } from '@/lib/gemini'
 import { calculateStatistics } from '@/lib/statistics'
-import { CallData, AnalysisData } from '@/types'
+import { parseModelConfigList, validateModelConfig } from '@/lib/providers'
+import { CacheMode, parseCacheMode } from '@/lib/resultCache'
+import { parseTaxonomy } from '@/lib/taxonomy'
+import { DEFAULT_PROMPT_PROFILE, parsePromptProfile } from '@/lib/promptProfiles'
+import { describePromptVersion } from '@/lib/promptTemplates'
+import { collectColumns, describeColumnMapping, parseColumnMapping, suggestColumnMapping } from '@/lib/columnMapping'
+import { describeIssueCounts, describeRejectedRow, MAX_LOGGED_REJECTED_ROWS, summarizeRowValidation } from '@/lib/rowValidation'
+import { MAX_ENSEMBLE_MODELS } from '@/lib/ensemble'
+import { MAX_FALLBACK_MODELS } from '@/lib/modelFallback'
+import { applyCategoryNormalization, buildCategoryNormalization } from '@/lib/categoryNormalization'
+import { analysisUsage, sumUsage } from '@/lib/usage'
+import { CallData, AnalysisData, ColumnMapping, PromptProfile, SheetSelection, Taxonomy } from '@/types'
 
 
 function createStreamWriter(controller: ReadableStreamDefaultController, encoder: TextEncoder) {
@@ -35,6 +46,15 @@ export async function POST(request: NextRequest) {
         const file = formData.get('file') as File
         const provider = formData.get('provider') as string
         const model = formData.get('model') as string
+        const temperature = formData.get('temperature') as string | null
+        const batchSize = Math.min(Math.max(Number(formData.get('batchSize')) || 1, 1), 20)
+        const cacheModeText = formData.get('cacheMode') as string | null
+        const taxonomyText = formData.get('taxonomy') as string | null
+        const ensembleText = formData.get('ensemble') as string | null
+        const fallbackText = formData.get('fallback') as string | null
+        const profileText = formData.get('profile') as string | null
+        const columnMappingText = formData.get('columnMapping') as string | null
+        const sheetsText = formData.get('sheets') as string | null
 
         if (!file) {
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: 'No file uploaded' })}\n\n`))
@@ -42,24 +62,102 @@ export async function POST(request: NextRequest) {
           return
         }
 
-        if (!provider || !model) {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: 'Provider and model must be specified' })}\n\n`))
+        const modelConfig: ModelConfig = {
+          provider,
+          model,
+          temperature: temperature ? Number(temperature) : undefined,
+        }
+        const modelConfigError = validateModelConfig(modelConfig)
+        if (modelConfigError) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: modelConfigError })}\n\n`))
           controller.close()
           return
         }
 
-        if (provider !== 'gemini' && provider !== 'groq') {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: 'Invalid provider. Must be "gemini" or "groq"' })}\n\n`))
+        let cacheMode: CacheMode
+        try {
+          cacheMode = parseCacheMode(cacheModeText)
+        } catch (cacheModeError: any) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: cacheModeError.message })}\n\n`))
           controller.close()
           return
         }
 
-        const modelConfig: ModelConfig = { provider: provider as 'gemini' | 'groq', model }
-        setModelConfig(modelConfig)
+        let taxonomy: Taxonomy | undefined
+        if (taxonomyText) {
+          try {
+            taxonomy = parseTaxonomy(taxonomyText)
+          } catch (taxonomyError: any) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid taxonomy: ${taxonomyError.message}` })}\n\n`))
+            controller.close()
+            return
+          }
+        }
+
+        let profile: PromptProfile = DEFAULT_PROMPT_PROFILE
+        if (profileText) {
+          try {
+            profile = parsePromptProfile(profileText)
+          } catch (profileError: any) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid profile: ${profileError.message}` })}\n\n`))
+            controller.close()
+            return
+          }
+        }
+
+        let columnMapping: ColumnMapping | undefined
+        if (columnMappingText) {
+          try {
+            columnMapping = parseColumnMapping(columnMappingText)
+          } catch (mappingError: any) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid column mapping: ${mappingError.message}` })}\n\n`))
+            controller.close()
+            return
+          }
+        }
+
+        let sheetSelection: SheetSelection | undefined
+        if (sheetsText) {
+          try {
+            sheetSelection = parseSheetSelection(sheetsText)
+          } catch (sheetsError: any) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid sheet selection: ${sheetsError.message}` })}\n\n`))
+            controller.close()
+            return
+          }
+        }
+
+        let ensembleModels: ModelConfig[] = []
+        if (ensembleText) {
+          try {
+            ensembleModels = parseModelConfigList(ensembleText, modelConfig, MAX_ENSEMBLE_MODELS)
+          } catch (ensembleError: any) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid ensemble: ${ensembleError.message}` })}\n\n`))
+            controller.close()
+            return
+          }
+        }
+
+        let fallbackModels: ModelConfig[] = []
+        if (fallbackText) {
+          try {
+            fallbackModels = parseModelConfigList(fallbackText, modelConfig, MAX_FALLBACK_MODELS)
+          } catch (fallbackError: any) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid fallback models: ${fallbackError.message}` })}\n\n`))
+            controller.close()
+            return
+          }
+        }
+
         sendLog(`Using model: ${provider}/${model}`, 'info')
+        if (taxonomy) {
+          sendLog(`🗂️  Categorizing against a taxonomy of ${taxonomy.categories.length} categories (plus OTHER)`, 'info')
+        }
+        sendLog(`🏢 Prompt profile: ${profile.label} (${profile.language})`, 'info')
 
-        if (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls')) {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: 'Only Excel files (.xlsx, .xls) are supported' })}\n\n`))
+        const fileFormat = detectFileFormat(file.name)
+        if (!fileFormat) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: UNSUPPORTED_FORMAT_ERROR })}\n\n`))
           controller.close()
           return
         }
@@ -67,23 +165,33 @@ export async function POST(request: NextRequest) {
         const bytes = await file.arrayBuffer()
         const buffer = Buffer.from(bytes)
 
-        sendLog('📄 Starting Excel file parsing...', 'info')
+        sendLog(`📄 Starting ${fileFormat.label} file parsing...`, 'info')
         sendLog(`📊 File size: ${(buffer.length / 1024).toFixed(2)} KB`, 'info')
 
-        const workbook = XLSX.read(buffer, { type: 'buffer' })
-        sendLog(`📋 Found ${workbook.SheetNames.length} sheet(s): ${workbook.SheetNames.join(', ')}`, 'info')
-        sendLog(`✅ Using sheet: "${workbook.SheetNames[0]}"`, 'info')
-
-        const rawData = parseExcelFile(buffer)
-        sendLog(`✅ Successfully parsed ${rawData.length} records from Excel file`, 'success')
+        const parsedFile = parseCallFile(buffer, fileFormat, sheetSelection)
+        if (parsedFile.encoding) {
+          sendLog(`🔤 Detected text encoding: ${parsedFile.encoding}`, 'info')
+        }
+        if (parsedFile.sheets && parsedFile.usedSheets) {
+          sendLog(`📋 Found ${parsedFile.sheets.length} sheet(s): ${parsedFile.sheets.map(sheet => sheet.name).join(', ')}`, 'info')
+          const usedSummaries = parsedFile.sheets.filter(sheet => parsedFile.usedSheets?.includes(sheet.name))
+          sendLog(`✅ Using sheet(s): ${usedSummaries.map(sheet => `"${sheet.name}" (${sheet.rows} rows)`).join(', ')}`, 'info')
+          parsedFile.skippedSheets?.forEach(({ name, reason }) => {
+            sendLog(`⚠️  Skipped sheet "${name}": ${reason}`, 'warning')
+          })
+        }
+        const rawData = parsedFile.records
+        sendLog(`✅ Successfully parsed ${rawData.length} records from ${fileFormat.label} file`, 'success')
 
-        sendLog('🔍 Validating Excel file structure...', 'info')
+        sendLog('🔍 Validating file structure...', 'info')
         sendLog(`   Validating ${rawData.length} records...`, 'info')
-        const validation = validateExcelStructure(rawData)
+        const appliedMapping = columnMapping || suggestColumnMapping(collectColumns(rawData))
+        sendLog(`🧭 Column mapping${columnMapping ? '' : ' (suggested)'}: ${describeColumnMapping(appliedMapping)}`, 'info')
+        const validation = validateExcelStructure(rawData, appliedMapping)
 
         if (!validation.isValid) {
           sendLog(`❌ Validation failed: ${validation.errors.join(', ')}`, 'error')
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid Excel structure: ${validation.errors.join(', ')}` })}\n\n`))
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: `Invalid file structure: ${validation.errors.join(', ')}` })}\n\n`))
           controller.close()
           return
         }
@@ -91,10 +199,28 @@ export async function POST(request: NextRequest) {
         sendLog('✅ Validation passed', 'success')
         sendLog(`Found ${rawData.length} calls to analyze`, 'info')
 
-        sendLog(`🔄 Transforming ${rawData.length} raw records...`, 'info')
-        const transformedData = transformRawData(rawData)
-        sendLog(`✅ Successfully transformed ${transformedData.length} records`, 'success')
-        const callsToAnalyze = transformedData
+        sendLog(`🧪 Validating ${rawData.length} rows...`, 'info')
+        const { calls: callsToAnalyze, report: rowValidation } = validateRows(rawData, appliedMapping, parsedFile.recordSheets)
+        const rowSummary = summarizeRowValidation(rowValidation)
+        if (rowSummary) {
+          sendLog(`⚠️  Row validation: ${callsToAnalyze.length} of ${rawData.length} row(s) accepted; ${rowSummary}`, 'warning')
+          describeIssueCounts(rowValidation).forEach(line => sendLog(`   ${line}`, 'warning'))
+          rowValidation.rejectedRows.slice(0, MAX_LOGGED_REJECTED_ROWS).forEach(row => {
+            sendLog(`   ⛔ ${describeRejectedRow(row)}`, 'warning')
+          })
+          if (rowValidation.rejectedRows.length > MAX_LOGGED_REJECTED_ROWS) {
+            sendLog(`   ... and ${rowValidation.rejectedRows.length - MAX_LOGGED_REJECTED_ROWS} more rejected row(s); download them all from the results`, 'warning')
+          }
+        } else {
+          sendLog(`✅ All ${rawData.length} rows passed validation`, 'success')
+        }
+        if (callsToAnalyze.length === 0) {
+          const errorMsg = `No valid rows to analyze: ${describeIssueCounts(rowValidation).join(', ')}`
+          sendLog(`❌ ${errorMsg}`, 'error')
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: errorMsg })}\n\n`))
+          controller.close()
+          return
+        }
 
         sendLog(`Starting AI categorization for ${callsToAnalyze.length} calls...`, 'info')
 
@@ -104,20 +230,49 @@ export async function POST(request: NextRequest) {
             callReason: call.callReason,
             issuesDiscussed: call.issuesDiscussed
           })),
-          undefined,
-          sendLog
+          { modelConfig, batchSize, cacheMode, taxonomy, profile, ensembleModels, fallbackModels, logCallback: sendLog }
         )
 
         const categorizedCalls: CallData[] = callsToAnalyze.map((call, index) => ({
           ...call,
           categories: categorizationResults[index].categories,
           sentiment: categorizationResults[index].sentiment,
-          aiAnalysis: categorizationResults[index].summary
+          aiAnalysis: categorizationResults[index].summary,
+          analysisCoverage: categorizationResults[index].coverage,
+          otherSuggestions: categorizationResults[index].otherSuggestions,
+          confidence: categorizationResults[index].confidence,
+          usedFallback: categorizationResults[index].fallback,
+          ensemble: categorizationResults[index].ensemble,
+          modelSwitch: categorizationResults[index].modelSwitch,
+          usage: categorizationResults[index].usage
         }))
 
+        const categoryNormalization = taxonomy ? undefined : buildCategoryNormalization(categorizedCalls)
+        if (categoryNormalization) {
+          const aliasCount = Object.values(categoryNormalization.aliases).reduce((sum, raw) => sum + raw.length, 0)
+          sendLog(`🧹 Merged ${aliasCount} near-duplicate label(s) into ${Object.keys(categoryNormalization.aliases).length} categories`, 'info')
+        }
+        const normalizedCalls = categoryNormalization
+          ? applyCategoryNormalization(categorizedCalls, categoryNormalization)
+          : categorizedCalls
+
         sendLog('Calculating statistics...', 'info')
 
-        const analysisData: AnalysisData = calculateStatistics(categorizedCalls)
+        const analysisData: AnalysisData = calculateStatistics(normalizedCalls)
+        const cacheHits = categorizationResults.filter(r => r.cached).length
+        analysisData.cacheStats = { hits: cacheHits, misses: categorizationResults.length - cacheHits }
+        analysisData.promptVersion = describePromptVersion(profile)
+        if (parsedFile.usedSheets) {
+          analysisData.sourceSheets = parsedFile.usedSheets
+        }
+        analysisData.rowValidation = rowValidation
+        analysisData.usage = analysisUsage(sumUsage(categorizationResults.map(r => r.usage)))
+        if (taxonomy) {
+          analysisData.taxonomy = taxonomy
+        }
+        if (categoryNormalization) {
+          analysisData.categoryNormalization = categoryNormalization
+        }
 
         sendLog('Analysis complete!', 'success')
 
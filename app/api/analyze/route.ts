@@ -1,8 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { parseExcelFile, transformRawData, validateExcelStructure } from '@/lib/excelProcessor'
-import { batchCategorizeCallsWithProgress, generateReportWithGemini, setModelConfig, ModelConfig, LogCallback } from '@/lib/gemini'
+import { parseCallFile, parseSheetSelection, validateExcelStructure, validateRows } from '@/lib/excelProcessor'
+import { detectFileFormat, UNSUPPORTED_FORMAT_ERROR } from '@/lib/fileFormats'
+import { batchCategorizeCallsWithProgress, CompletionUsage, generateReportWithGemini, ModelConfig, LogCallback, toTokenUsage } from '@/lib/gemini'
 import { calculateStatistics } from '@/lib/statistics'
-import { CallData, AnalysisData } from '@/types'
+import { parseModelConfigList, validateModelConfig } from '@/lib/providers'
+import { CacheMode, parseCacheMode } from '@/lib/resultCache'
+import { parseTaxonomy } from '@/lib/taxonomy'
+import { DEFAULT_PROMPT_PROFILE, parsePromptProfile } from '@/lib/promptProfiles'
+import { describePromptVersion } from '@/lib/promptTemplates'
+import { parseColumnMapping } from '@/lib/columnMapping'
+import { describeIssueCounts } from '@/lib/rowValidation'
+
+import { MAX_ENSEMBLE_MODELS } from '@/lib/ensemble'
+import { MAX_FALLBACK_MODELS } from '@/lib/modelFallback'
+import { applyCategoryNormalization, buildCategoryNormalization } from '@/lib/categoryNormalization'
+import { analysisUsage, sumUsage, withReportUsage } from '@/lib/usage'
+import { CallData, AnalysisData, ColumnMapping, PromptProfile, SheetSelection, Taxonomy } from '@/types'
 
 
 export async function POST(request: NextRequest) {
@@ -11,6 +24,15 @@ export async function POST(request: NextRequest) {
     const file = formData.get('file') as File
     const provider = formData.get('provider') as string
     const model = formData.get('model') as string
+    const temperature = formData.get('temperature') as string | null
+    const batchSize = Math.min(Math.max(Number(formData.get('batchSize')) || 1, 1), 20)
+    const cacheModeText = formData.get('cacheMode') as string | null
+    const taxonomyText = formData.get('taxonomy') as string | null
+    const ensembleText = formData.get('ensemble') as string | null
+    const fallbackText = formData.get('fallback') as string | null
+    const profileText = formData.get('profile') as string | null
+    const columnMappingText = formData.get('columnMapping') as string | null
+    const sheetsText = formData.get('sheets') as string | null
 
     if (!file) {
       return NextResponse.json(
@@ -19,27 +41,107 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!provider || !model) {
+    const modelConfig: ModelConfig = {
+      provider,
+      model,
+      temperature: temperature ? Number(temperature) : undefined,
+    }
+    const modelConfigError = validateModelConfig(modelConfig)
+    if (modelConfigError) {
       return NextResponse.json(
-        { success: false, error: 'Provider and model must be specified' },
+        { success: false, error: modelConfigError },
         { status: 400 }
       )
     }
 
-    if (provider !== 'gemini' && provider !== 'groq') {
+    let cacheMode: CacheMode
+    try {
+      cacheMode = parseCacheMode(cacheModeText)
+    } catch (cacheModeError: any) {
       return NextResponse.json(
-        { success: false, error: 'Invalid provider. Must be "gemini" or "groq"' },
+        { success: false, error: cacheModeError.message },
         { status: 400 }
       )
     }
 
-    const modelConfig: ModelConfig = { provider: provider as 'gemini' | 'groq', model }
-    setModelConfig(modelConfig)
+    let taxonomy: Taxonomy | undefined
+    if (taxonomyText) {
+      try {
+        taxonomy = parseTaxonomy(taxonomyText)
+      } catch (taxonomyError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid taxonomy: ${taxonomyError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let profile: PromptProfile = DEFAULT_PROMPT_PROFILE
+    if (profileText) {
+      try {
+        profile = parsePromptProfile(profileText)
+      } catch (profileError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid profile: ${profileError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let columnMapping: ColumnMapping | undefined
+    if (columnMappingText) {
+      try {
+        columnMapping = parseColumnMapping(columnMappingText)
+      } catch (mappingError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid column mapping: ${mappingError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let sheetSelection: SheetSelection | undefined
+    if (sheetsText) {
+      try {
+        sheetSelection = parseSheetSelection(sheetsText)
+      } catch (sheetsError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid sheet selection: ${sheetsError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let ensembleModels: ModelConfig[] = []
+    if (ensembleText) {
+      try {
+        ensembleModels = parseModelConfigList(ensembleText, modelConfig, MAX_ENSEMBLE_MODELS)
+      } catch (ensembleError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid ensemble: ${ensembleError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let fallbackModels: ModelConfig[] = []
+    if (fallbackText) {
+      try {
+        fallbackModels = parseModelConfigList(fallbackText, modelConfig, MAX_FALLBACK_MODELS)
+      } catch (fallbackError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid fallback models: ${fallbackError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
     console.log(`Using model: ${provider}/${model}`)
 
-    if (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls')) {
+    const fileFormat = detectFileFormat(file.name)
+    if (!fileFormat) {
       return NextResponse.json(
-        { success: false, error: 'Only Excel files (.xlsx, .xls) are supported' },
+        { success: false, error: UNSUPPORTED_FORMAT_ERROR },
         { status: 400 }
       )
     }
@@ -47,15 +149,16 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer()
     const buffer = Buffer.from(bytes)
 
-    console.log('Parsing Excel file...')
-    const rawData = parseExcelFile(buffer)
+    console.log(`Parsing ${fileFormat.label} file...`)
+    const parsedFile = parseCallFile(buffer, fileFormat, sheetSelection)
+    const rawData = parsedFile.records
 
-    const validation = validateExcelStructure(rawData)
+    const validation = validateExcelStructure(rawData, columnMapping)
     if (!validation.isValid) {
       return NextResponse.json(
         {
           success: false,
-          error: `Invalid Excel structure: ${validation.errors.join(', ')}`
+          error: `Invalid file structure: ${validation.errors.join(', ')}`
         },
         { status: 400 }
       )
@@ -63,9 +166,16 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found ${rawData.length} calls to analyze`)
 
-    const transformedData = transformRawData(rawData)
-
-    const callsToAnalyze = transformedData
+    const { calls: callsToAnalyze, report: rowValidation } = validateRows(rawData, columnMapping, parsedFile.recordSheets)
+    if (callsToAnalyze.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No valid rows to analyze: ${describeIssueCounts(rowValidation).join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
 
     console.log(`Starting AI categorization for ${callsToAnalyze.length} calls...`)
 
@@ -74,30 +184,66 @@ export async function POST(request: NextRequest) {
         transcript: call.transcript,
         callReason: call.callReason,
         issuesDiscussed: call.issuesDiscussed
-      }))
+      })),
+      { modelConfig, batchSize, cacheMode, taxonomy, profile, ensembleModels, fallbackModels }
     )
 
     const categorizedCalls: CallData[] = callsToAnalyze.map((call, index) => ({
       ...call,
       categories: categorizationResults[index].categories,
       sentiment: categorizationResults[index].sentiment,
-      aiAnalysis: categorizationResults[index].summary
+      aiAnalysis: categorizationResults[index].summary,
+      analysisCoverage: categorizationResults[index].coverage,
+      otherSuggestions: categorizationResults[index].otherSuggestions,
+      confidence: categorizationResults[index].confidence,
+      usedFallback: categorizationResults[index].fallback,
+      ensemble: categorizationResults[index].ensemble,
+      modelSwitch: categorizationResults[index].modelSwitch,
+      usage: categorizationResults[index].usage
     }))
 
+    const categoryNormalization = taxonomy ? undefined : buildCategoryNormalization(categorizedCalls)
+    if (categoryNormalization) {
+      const aliasCount = Object.values(categoryNormalization.aliases).reduce((sum, raw) => sum + raw.length, 0)
+      console.log(`Merged ${aliasCount} near-duplicate label(s) into ${Object.keys(categoryNormalization.aliases).length} categories`)
+    }
+    const normalizedCalls = categoryNormalization
+      ? applyCategoryNormalization(categorizedCalls, categoryNormalization)
+      : categorizedCalls
+
     console.log('Calculating statistics...')
 
-    const analysisData: AnalysisData = calculateStatistics(categorizedCalls)
+    const analysisData: AnalysisData = calculateStatistics(normalizedCalls)
+    const cacheHits = categorizationResults.filter(r => r.cached).length
+    analysisData.cacheStats = { hits: cacheHits, misses: categorizationResults.length - cacheHits }
+    analysisData.promptVersion = describePromptVersion(profile)
+    if (parsedFile.usedSheets) {
+      analysisData.sourceSheets = parsedFile.usedSheets
+    }
+    analysisData.rowValidation = rowValidation
+    analysisData.usage = analysisUsage(sumUsage(categorizationResults.map(r => r.usage)))
+    if (taxonomy) {
+      analysisData.taxonomy = taxonomy
+    }
+    if (categoryNormalization) {
+      analysisData.categoryNormalization = categoryNormalization
+    }
 
     console.log('Generating comprehensive report with Gemini...')
 
-    const report = await generateReportWithGemini(analysisData)
+    const reportUsage: CompletionUsage[] = []
+    const report = await generateReportWithGemini(analysisData, {
+      modelConfig,
+      profile,
+      onUsage: (usage) => reportUsage.push(usage)
+    })
 
     console.log('Analysis complete!')
 
     return NextResponse.json({
       success: true,
       message: `Successfully analyzed ${categorizedCalls.length} calls`,
-      data: analysisData,
+      data: withReportUsage(analysisData, toTokenUsage(reportUsage)),
       report: report
     })
 
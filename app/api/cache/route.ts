@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { clearResultCache } from '@/lib/resultCache'
+
+export async function DELETE() {
+  try {
+    const removed = await clearResultCache()
+    console.log(`🗑️  Cleared ${removed} cached categorization result(s)`)
+
+    return NextResponse.json({
+      success: true,
+      removed,
+    })
+  } catch (error: any) {
+    console.error('Error clearing result cache:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'An error occurred while clearing the cache'
+      },
+      { status: 500 }
+    )
+  }
+}
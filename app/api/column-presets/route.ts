@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteColumnPreset, listColumnPresets, saveColumnPreset, validatePresetName } from '@/lib/columnPresets'
+import { parseColumnMapping } from '@/lib/columnMapping'
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      presets: await listColumnPresets(),
+    })
+  } catch (error: any) {
+    console.error('Error loading column mapping presets:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'An error occurred while loading the presets'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/** Saves a column mapping preset: `{ "name": "<source system>", "mapping": { "<field>": "<column>" } }`. */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    let name
+    let mapping
+    try {
+      name = validatePresetName(String(body?.name || ''))
+      mapping = parseColumnMapping(JSON.stringify(body?.mapping ?? null))
+    } catch (presetError: any) {
+      return NextResponse.json(
+        { success: false, error: presetError.message },
+        { status: 400 }
+      )
+    }
+    const preset = await saveColumnPreset(name, mapping)
+    console.log(`💾 Saved column mapping preset "${preset.name}"`)
+
+    return NextResponse.json({
+      success: true,
+      preset,
+    })
+  } catch (error: any) {
+    console.error('Error saving column mapping preset:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'An error occurred while saving the preset'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const name = request.nextUrl.searchParams.get('name') || ''
+    const removed = await deleteColumnPreset(name)
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: `No preset named "${name}"` },
+        { status: 404 }
+      )
+    }
+    console.log(`🗑️  Deleted column mapping preset "${name}"`)
+
+    return NextResponse.json({
+      success: true,
+    })
+  } catch (error: any) {
+    console.error('Error deleting column mapping preset:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'An error occurred while deleting the preset'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseCallFile, parseSheetSelection, validateExcelStructure, validateRows } from '@/lib/excelProcessor'
+import { detectFileFormat, UNSUPPORTED_FORMAT_ERROR } from '@/lib/fileFormats'
+import { estimateAnalysisUsage, ModelConfig } from '@/lib/gemini'
+import { parseModelConfigList, validateModelConfig } from '@/lib/providers'
+import { parseTaxonomy } from '@/lib/taxonomy'
+import { parseColumnMapping } from '@/lib/columnMapping'
+import { MAX_ENSEMBLE_MODELS } from '@/lib/ensemble'
+import { ColumnMapping, SheetSelection, Taxonomy } from '@/types'
+
+/** Pre-flight token and cost estimate for analyzing an uploaded file, without calling any model. */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const batchSize = Math.min(Math.max(Number(formData.get('batchSize')) || 1, 1), 20)
+    const taxonomyText = formData.get('taxonomy') as string | null
+    const ensembleText = formData.get('ensemble') as string | null
+    const columnMappingText = formData.get('columnMapping') as string | null
+    const sheetsText = formData.get('sheets') as string | null
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'No file uploaded' },
+        { status: 400 }
+      )
+    }
+
+    const modelConfig: ModelConfig = {
+      provider: formData.get('provider') as string,
+      model: formData.get('model') as string,
+    }
+    const modelConfigError = validateModelConfig(modelConfig)
+    if (modelConfigError) {
+      return NextResponse.json(
+        { success: false, error: modelConfigError },
+        { status: 400 }
+      )
+    }
+
+    let taxonomy: Taxonomy | undefined
+    let ensembleModels: ModelConfig[] = []
+    let columnMapping: ColumnMapping | undefined
+    let sheetSelection: SheetSelection | undefined
+    try {
+      taxonomy = taxonomyText ? parseTaxonomy(taxonomyText) : undefined
+      ensembleModels = ensembleText
+        ? parseModelConfigList(ensembleText, modelConfig, MAX_ENSEMBLE_MODELS)
+        : []
+      columnMapping = columnMappingText ? parseColumnMapping(columnMappingText) : undefined
+      sheetSelection = sheetsText ? parseSheetSelection(sheetsText) : undefined
+    } catch (optionsError: any) {
+      return NextResponse.json(
+        { success: false, error: optionsError.message },
+        { status: 400 }
+      )
+    }
+
+    const fileFormat = detectFileFormat(file.name)
+    if (!fileFormat) {
+      return NextResponse.json(
+        { success: false, error: UNSUPPORTED_FORMAT_ERROR },
+        { status: 400 }
+      )
+    }
+
+    const rawData = parseCallFile(Buffer.from(await file.arrayBuffer()), fileFormat, sheetSelection).records
+    const validation = validateExcelStructure(rawData, columnMapping)
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid file structure: ${validation.errors.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const { calls, report: rowValidation } = validateRows(rawData, columnMapping)
+    return NextResponse.json({
+      success: true,
+      calls: calls.length,
+      rejectedRows: rowValidation.rejectedRows.length,
+      estimate: estimateAnalysisUsage(calls, { modelConfig, batchSize, taxonomy, ensembleModels })
+    })
+  } catch (error: any) {
+    console.error('Error estimating usage:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'An error occurred while estimating usage'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseCallFile } from '@/lib/excelProcessor'
+import { detectFileFormat, UNSUPPORTED_FORMAT_ERROR } from '@/lib/fileFormats'
+import { ModelConfig } from '@/lib/gemini'
+import { formatEvaluationReport, parseGoldenSet, runEvaluation } from '@/lib/evaluation'
+import { validateModelConfig } from '@/lib/providers'
+import { parseTaxonomy } from '@/lib/taxonomy'
+import { DEFAULT_PROMPT_PROFILE, parsePromptProfile } from '@/lib/promptProfiles'
+import { PromptProfile, Taxonomy } from '@/types'
+
+/**
+ * Scores a model against a labeled spreadsheet. Intended for headless use:
+ *
+ *   curl -F file=@golden.xlsx -F provider=mock -F model=mock-keyword \
+ *        -F format=text http://localhost:3000/api/evaluate
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const provider = formData.get('provider') as string
+    const model = formData.get('model') as string
+    const temperature = formData.get('temperature') as string | null
+    const batchSize = Math.min(Math.max(Number(formData.get('batchSize')) || 1, 1), 20)
+    const taxonomyText = formData.get('taxonomy') as string | null
+    const profileText = formData.get('profile') as string | null
+    const format = formData.get('format') === 'text' ? 'text' : 'json'
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'No golden set uploaded' },
+        { status: 400 }
+      )
+    }
+
+    const fileFormat = detectFileFormat(file.name)
+    if (!fileFormat) {
+      return NextResponse.json(
+        { success: false, error: UNSUPPORTED_FORMAT_ERROR },
+        { status: 400 }
+      )
+    }
+
+    const modelConfig: ModelConfig = {
+      provider,
+      model,
+      temperature: temperature ? Number(temperature) : undefined,
+    }
+    const modelConfigError = validateModelConfig(modelConfig)
+    if (modelConfigError) {
+      return NextResponse.json(
+        { success: false, error: modelConfigError },
+        { status: 400 }
+      )
+    }
+
+    let taxonomy: Taxonomy | undefined
+    if (taxonomyText) {
+      try {
+        taxonomy = parseTaxonomy(taxonomyText)
+      } catch (taxonomyError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid taxonomy: ${taxonomyError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let profile: PromptProfile = DEFAULT_PROMPT_PROFILE
+    if (profileText) {
+      try {
+        profile = parsePromptProfile(profileText)
+      } catch (profileError: any) {
+        return NextResponse.json(
+          { success: false, error: `Invalid profile: ${profileError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let golden
+    try {
+      golden = parseGoldenSet(parseCallFile(Buffer.from(await file.arrayBuffer()), fileFormat).records)
+    } catch (goldenError: any) {
+      return NextResponse.json(
+        { success: false, error: `Invalid golden set: ${goldenError.message}` },
+        { status: 400 }
+      )
+    }
+
+    const evaluation = await runEvaluation(golden, { modelConfig, batchSize, taxonomy, profile })
+    const report = formatEvaluationReport(evaluation)
+
+    if (format === 'text') {
+      return new NextResponse(report, {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      evaluation,
+      report,
+    })
+  } catch (error: any) {
+    console.error('Error running evaluation:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'An error occurred while running the evaluation'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateSummarizedReport, setModelConfig, ModelConfig } from '@/lib/gemini'
+import { generateSummarizedReport, CompletionUsage, DEFAULT_MODEL_CONFIG, ModelConfig, toTokenUsage } from '@/lib/gemini'
+import { validateModelConfig } from '@/lib/providers'
 import { AnalysisData } from '@/types'
 
 export async function POST(request: NextRequest) {
@@ -16,7 +17,13 @@ export async function POST(request: NextRequest) {
     }
 
     if (modelConfig) {
-      setModelConfig(modelConfig)
+      const modelConfigError = validateModelConfig(modelConfig)
+      if (modelConfigError) {
+        return NextResponse.json(
+          { success: false, error: modelConfigError },
+          { status: 400 }
+        )
+      }
     }
 
     console.log('Generating summarized report on-demand...')
@@ -25,13 +32,18 @@ export async function POST(request: NextRequest) {
       console.log(`🤖 Using model: ${modelConfig.provider}/${modelConfig.model}`)
     }
 
-    const report = await generateSummarizedReport(analysisData)
+    const reportUsage: CompletionUsage[] = []
+    const report = await generateSummarizedReport(analysisData, {
+      modelConfig: modelConfig || DEFAULT_MODEL_CONFIG,
+      onUsage: (usage) => reportUsage.push(usage),
+    })
 
     console.log('Summarized report generated successfully!')
 
     return NextResponse.json({
       success: true,
-      report: report
+      report: report,
+      usage: toTokenUsage(reportUsage)
     })
 
   } catch (error: any) {
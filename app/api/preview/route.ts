@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseCallFile, parseSheetSelection, previewCallFile } from '@/lib/excelProcessor'
+import { detectFileFormat, UNSUPPORTED_FORMAT_ERROR } from '@/lib/fileFormats'
+import { SheetSelection } from '@/types'
+
+/** Detected columns, sample rows and suggested column mapping of an uploaded file, for the mapping step. */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const sheetsText = formData.get('sheets') as string | null
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'No file uploaded' },
+        { status: 400 }
+      )
+    }
+
+    const fileFormat = detectFileFormat(file.name)
+    if (!fileFormat) {
+      return NextResponse.json(
+        { success: false, error: UNSUPPORTED_FORMAT_ERROR },
+        { status: 400 }
+      )
+    }
+
+    let sheetSelection: SheetSelection | undefined
+    try {
+      sheetSelection = sheetsText ? parseSheetSelection(sheetsText) : undefined
+    } catch (sheetsError: any) {
+      return NextResponse.json(
+        { success: false, error: `Invalid sheet selection: ${sheetsError.message}` },
+        { status: 400 }
+      )
+    }
+
+    const parsedFile = parseCallFile(Buffer.from(await file.arrayBuffer()), fileFormat, sheetSelection)
+    if (parsedFile.records.length === 0 && !parsedFile.sheets) {
+      return NextResponse.json(
+        { success: false, error: 'File is empty' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      preview: previewCallFile(parsedFile)
+    })
+  } catch (error: any) {
+    console.error('Error previewing file:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || 'An error occurred while reading the file'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { describeProviders } from '@/lib/providers'
+
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    providers: describeProviders(),
+  })
+}
@@ -144,6 +144,7 @@ export default function Home() {
               modelConfig={modelConfig}
               onReset={handleReset}
               onViewLogs={() => setCurrentScreen('logs')}
+              onDataChange={setAnalysisData}
             />
           </div>
         )}
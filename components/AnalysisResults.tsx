@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { AnalysisData } from '@/types'
 import { 
   Download, 
@@ -11,12 +11,20 @@ import {
   PieChart as PieChartIcon,
   BarChart3,
   AlertCircle,
-  Loader2
+  Loader2,
+  UserCheck,
+  Coins
 } from 'lucide-react'
-import { generateTextReport, generateCSV } from '@/lib/statistics'
+import { generateTextReport, generateCSV, calculateStatistics, recalculateStatistics } from '@/lib/statistics'
+import { withRawCategories } from '@/lib/categoryNormalization'
+import { DEFAULT_REVIEW_THRESHOLD, buildReviewQueue } from '@/lib/reviewQueue'
+import { formatCost, formatTokens, withReportUsage } from '@/lib/usage'
+import { buildRejectedRowsWorkbook, summarizeRowValidation } from '@/lib/rowValidation'
 import CategoryChart from './CategoryChart'
 import SentimentChart from './SentimentChart'
 import CallsTable from './CallsTable'
+import OtherSuggestions from './OtherSuggestions'
+import ReviewQueue from './ReviewQueue'
 import ModelSelector, { ModelConfig } from './ModelSelector'
 
 interface AnalysisResultsProps {
@@ -25,13 +33,33 @@ interface AnalysisResultsProps {
   modelConfig?: ModelConfig | null
   onReset: () => void
   onViewLogs?: () => void
+  /** Called with recalculated statistics after calls were reviewed. */
+  onDataChange?: (data: AnalysisData) => void
 }
 
-export default function AnalysisResults({ data, report, modelConfig, onReset, onViewLogs }: AnalysisResultsProps) {
-  const [activeTab, setActiveTab] = useState<'overview' | 'categories' | 'calls'>('overview')
+export default function AnalysisResults({ data, report, modelConfig, onReset, onViewLogs, onDataChange }: AnalysisResultsProps) {
+  const [activeTab, setActiveTab] = useState<'overview' | 'categories' | 'calls' | 'review'>('overview')
   const [error, setError] = useState<string | null>(null)
   const [isGeneratingReport, setIsGeneratingReport] = useState(false)
   const [selectedModelForReport, setSelectedModelForReport] = useState<ModelConfig | null>(modelConfig || null)
+  const [categoryView, setCategoryView] = useState<'merged' | 'raw'>('merged')
+  const [reviewThreshold, setReviewThreshold] = useState(DEFAULT_REVIEW_THRESHOLD)
+  const [reviewer, setReviewer] = useState('')
+
+  const reviewCount = useMemo(
+    () => (data?.calls ? buildReviewQueue(data.calls, reviewThreshold).length : 0),
+    [data, reviewThreshold]
+  )
+
+  const mergedAliases = data?.categoryNormalization?.aliases || {}
+  const hasMergedLabels = Object.keys(mergedAliases).length > 0
+  const viewData = useMemo(() => {
+    if (categoryView !== 'raw' || !data?.calls) {
+      return data
+    }
+    const rawStats = calculateStatistics(withRawCategories(data.calls))
+    return { ...data, categories: rawStats.categories, categoryRollups: rawStats.categoryRollups }
+  }, [data, categoryView])
 
   useEffect(() => {
     if (modelConfig) {
@@ -55,6 +83,14 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
     )
   }
 
+  const statGridColumns = ['lg:grid-cols-3', 'lg:grid-cols-4', 'lg:grid-cols-5'][
+    (data.reviewStats ? 1 : 0) + (data.usage ? 1 : 0)
+  ]
+
+  const handleCallsChange = onDataChange
+    ? (calls: AnalysisData['calls']) => onDataChange(recalculateStatistics(data, calls))
+    : undefined
+
   const downloadReport = async () => {
     try {
       setError(null)
@@ -81,6 +117,10 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
         throw new Error(result.error || 'Failed to generate report')
       }
 
+      if (result.usage && onDataChange) {
+        onDataChange(withReportUsage(data, result.usage))
+      }
+
       const reportText = result.report || generateTextReport(data)
       const blob = new Blob([reportText], { type: 'text/plain' })
       const url = URL.createObjectURL(blob)
@@ -114,6 +154,25 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
     }
   }
 
+  const downloadRejectedRows = () => {
+    if (!data.rowValidation) return
+    try {
+      setError(null)
+      const blob = new Blob([buildRejectedRowsWorkbook(data.rowValidation)], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `rejected-rows-${new Date().toISOString().split('T')[0]}.xlsx`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error downloading rejected rows:', err)
+      setError('Failed to download rejected rows. Please try again.')
+    }
+  }
+
   return (
       <div className="space-y-6">
       {error && (
@@ -147,6 +206,44 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
             <p className="text-gray-600 text-sm mt-1">
               Generated on {data.timestamp ? new Date(data.timestamp).toLocaleString() : 'Unknown date'}
             </p>
+            {data.cacheStats && (
+              <p className="text-gray-500 text-xs mt-1">
+                {data.cacheStats.hits} call(s) from cache, {data.cacheStats.misses} analyzed
+              </p>
+            )}
+            {data.rowValidation && summarizeRowValidation(data.rowValidation) && (
+              <p className="text-amber-600 text-xs mt-1">
+                {data.rowValidation.totalRows} rows in the file: {summarizeRowValidation(data.rowValidation)}
+                {data.rowValidation.rejectedRows.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={downloadRejectedRows}
+                    className="ml-2 underline hover:text-amber-700"
+                  >
+                    Download rejected rows
+                  </button>
+                )}
+              </p>
+            )}
+            {data.promptVersion && (
+              <p className="text-gray-500 text-xs mt-1">
+                Profile: {data.promptVersion.profile.label} ({data.promptVersion.profile.language}), prompts{' '}
+                {Object.entries(data.promptVersion.templates).map(([name, version]) => `${name} v${version}`).join(', ')}
+              </p>
+            )}
+            {onDataChange && (
+              <label className="flex items-center gap-2 text-sm text-gray-600 mt-3">
+                <UserCheck className="w-4 h-4" />
+                Reviewer
+                <input
+                  type="text"
+                  value={reviewer}
+                  onChange={(e) => setReviewer(e.target.value)}
+                  placeholder="Your name (required to edit labels)"
+                  className="px-2 py-1 border border-gray-300 rounded text-sm w-64"
+                />
+              </label>
+            )}
           </div>
           <div className="flex space-x-3">
             <button
@@ -193,7 +290,7 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      <div className={`grid grid-cols-1 md:grid-cols-2 ${statGridColumns} gap-6`}>
         <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-6 text-white shadow-lg">
           <div className="flex items-center justify-between mb-2">
             <Phone className="w-8 h-8 opacity-80" />
@@ -219,9 +316,38 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
             <PieChartIcon className="w-8 h-8 opacity-80" />
             <TrendingUp className="w-5 h-5 opacity-60" />
           </div>
-          <div className="text-3xl font-bold mb-1">{data?.categories?.length || 0}</div>
+          <div className="text-3xl font-bold mb-1">{viewData?.categories?.length || 0}</div>
           <div className="text-orange-100 text-sm">Categories Identified</div>
         </div>
+
+        {data.reviewStats && (
+          <div className="bg-gradient-to-br from-purple-500 to-purple-600 rounded-xl p-6 text-white shadow-lg">
+            <div className="flex items-center justify-between mb-2">
+              <UserCheck className="w-8 h-8 opacity-80" />
+            </div>
+            <div className="text-3xl font-bold mb-1">
+              {(data.reviewStats.disagreementRate * 100).toFixed(1)}%
+            </div>
+            <div className="text-purple-100 text-sm">
+              AI-Human Disagreement ({data.reviewStats.overriddenCalls}/{data.reviewStats.reviewedCalls} reviewed calls)
+            </div>
+          </div>
+        )}
+
+        {data.usage && (
+          <div className="bg-gradient-to-br from-slate-500 to-slate-600 rounded-xl p-6 text-white shadow-lg">
+            <div className="flex items-center justify-between mb-2">
+              <Coins className="w-8 h-8 opacity-80" />
+            </div>
+            <div className="text-3xl font-bold mb-1">{formatCost(data.usage.total.costUsd)}</div>
+            <div className="text-slate-100 text-sm">
+              {formatTokens(data.usage.total.promptTokens)} prompt + {formatTokens(data.usage.total.completionTokens)} completion tokens
+              {' '}in {data.usage.total.requests} request(s)
+              {data.usage.reports.requests > 0 && ` (reports: ${formatCost(data.usage.reports.costUsd)})`}
+              {data.usage.total.estimated && ', partly estimated'}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="bg-white rounded-xl shadow-md overflow-hidden">
@@ -257,10 +383,45 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
             >
               Call Details
             </button>
+            {onDataChange && (
+              <button
+                onClick={() => setActiveTab('review')}
+                className={`flex-1 px-6 py-4 font-medium transition-all ${
+                  activeTab === 'review'
+                    ? 'bg-primary-50 text-primary-700 border-b-2 border-primary-600'
+                    : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                Review Queue
+                {reviewCount > 0 && (
+                  <span className="ml-2 px-2 py-0.5 text-xs bg-amber-100 text-amber-800 rounded-full">{reviewCount}</span>
+                )}
+              </button>
+            )}
           </div>
         </div>
 
         <div className="p-6">
+          {hasMergedLabels && (activeTab === 'overview' || activeTab === 'categories') && (
+            <div className="flex items-center justify-end mb-4 text-sm">
+              <span className="text-gray-600 mr-2">Category labels:</span>
+              <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => setCategoryView('merged')}
+                  className={`px-3 py-1 ${categoryView === 'merged' ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  Merged
+                </button>
+                <button
+                  onClick={() => setCategoryView('raw')}
+                  className={`px-3 py-1 ${categoryView === 'raw' ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  Raw
+                </button>
+              </div>
+            </div>
+          )}
+
           {activeTab === 'overview' && (
             <div className="space-y-6">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -270,9 +431,9 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
                     <BarChart3 className="w-5 h-5 mr-2 text-primary-600" />
                     Top 10 Categories
                   </h3>
-                  {data?.categories && data.categories.length > 0 ? (
+                  {viewData?.categories && viewData.categories.length > 0 ? (
                     <div className="space-y-3">
-                      {data.categories.slice(0, 10).map((cat, idx) => (
+                      {viewData.categories.slice(0, 10).map((cat, idx) => (
                         <div key={idx}>
                           <div className="flex items-center justify-between mb-1">
                             <span className="text-sm font-medium text-gray-700 truncate">
@@ -301,9 +462,38 @@ export default function AnalysisResults({ data, report, modelConfig, onReset, on
             </div>
           )}
 
-          {activeTab === 'categories' && <CategoryChart data={data} />}
+          {activeTab === 'categories' && (
+            <div className="space-y-6">
+              <CategoryChart data={viewData} />
+              {hasMergedLabels && categoryView === 'merged' && (
+                <div className="bg-gray-50 rounded-lg p-6">
+                  <h3 className="text-lg font-semibold text-gray-800 mb-3">Merged Labels</h3>
+                  <ul className="space-y-2 text-sm">
+                    {Object.entries(mergedAliases).map(([canonical, aliases]) => (
+                      <li key={canonical}>
+                        <span className="font-medium text-gray-800">{canonical}</span>
+                        <span className="text-gray-500"> ← {aliases.join(', ')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {data.otherSuggestions && <OtherSuggestions suggestions={data.otherSuggestions} />}
+            </div>
+          )}
+
+          {activeTab === 'calls' && <CallsTable data={data} onCallsChange={handleCallsChange} reviewer={reviewer.trim()} />}
 
-          {activeTab === 'calls' && <CallsTable data={data} />}
+          {activeTab === 'review' && handleCallsChange && (
+            <ReviewQueue
+              calls={data.calls}
+              taxonomy={data.taxonomy}
+              threshold={reviewThreshold}
+              reviewer={reviewer.trim()}
+              onThresholdChange={setReviewThreshold}
+              onCallsChange={handleCallsChange}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -1,18 +1,37 @@
 'use client'
 
 import { useState } from 'react'
-import { AnalysisData } from '@/types'
-import { Search, ChevronDown, ChevronUp, AlertCircle } from 'lucide-react'
+import { AnalysisData, CallAuditEntry, CallData } from '@/types'
+import { Search, ChevronDown, ChevronUp, AlertCircle, Pencil, RotateCcw, History } from 'lucide-react'
+import { aiLabels, correctReview, reviewLabelOptions, revertReview } from '@/lib/reviewQueue'
+import { hasModelDisagreement } from '@/lib/ensemble'
+import { describeModelSwitch } from '@/lib/modelFallback'
+import { formatCost } from '@/lib/usage'
+import LabelEditor from './LabelEditor'
 
 interface CallsTableProps {
   data: AnalysisData
+  /** Enables inline overrides; called with every call after one was changed. */
+  onCallsChange?: (calls: CallData[]) => void
+  /** Name recorded in the audit trail; editing is disabled until it is set. */
+  reviewer?: string
 }
 
-export default function CallsTable({ data }: CallsTableProps) {
+function describeAuditEntry(entry: CallAuditEntry) {
+  const changes = [
+    entry.categories && `categories ${entry.categories.from.join(', ') || 'none'} → ${entry.categories.to.join(', ')}`,
+    entry.sentiment && `sentiment ${entry.sentiment.from || 'none'} → ${entry.sentiment.to || 'none'}`,
+  ].filter(Boolean)
+  return `${entry.action}${changes.length > 0 ? `: ${changes.join('; ')}` : ''}`
+}
+
+export default function CallsTable({ data, onCallsChange, reviewer }: CallsTableProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('all')
+  const [selectedSheet, setSelectedSheet] = useState('all')
   const [currentPage, setCurrentPage] = useState(1)
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [editingId, setEditingId] = useState<string | null>(null)
   const itemsPerPage = 10
 
   if (!data || !data.calls || !Array.isArray(data.calls)) {
@@ -57,7 +76,9 @@ export default function CallsTable({ data }: CallsTableProps) {
         selectedCategory === 'all' || 
         (call.categories && Array.isArray(call.categories) && call.categories.includes(selectedCategory))
 
-      return matchesSearch && matchesCategory
+      const matchesSheet = selectedSheet === 'all' || call.sourceSheet === selectedSheet
+
+      return matchesSearch && matchesCategory && matchesSheet
     })
   } catch (error) {
     console.error('Error filtering calls:', error)
@@ -78,6 +99,11 @@ export default function CallsTable({ data }: CallsTableProps) {
   const startIndex = (currentPage - 1) * itemsPerPage
   const displayedCalls = filteredCalls.slice(startIndex, startIndex + itemsPerPage)
 
+  const updateCall = (updated: CallData) => {
+    onCallsChange?.(data.calls.map((call) => (call.id === updated.id ? updated : call)))
+    setEditingId(null)
+  }
+
   const toggleRow = (id: string) => {
     const newExpanded = new Set(expandedRows)
     if (newExpanded.has(id)) {
@@ -121,6 +147,21 @@ export default function CallsTable({ data }: CallsTableProps) {
               </option>
             ))}
           </select>
+          {data.sourceSheets && data.sourceSheets.length > 1 && (
+            <select
+              value={selectedSheet}
+              onChange={(e) => {
+                setSelectedSheet(e.target.value)
+                setCurrentPage(1)
+              }}
+              className="px-4 py-2 border border-gray-300 text-black rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+            >
+              <option value="all">All Sheets</option>
+              {data.sourceSheets.map((sheet) => (
+                <option key={sheet} value={sheet}>{sheet}</option>
+              ))}
+            </select>
+          )}
         </div>
 
         {/* Results count */}
@@ -188,10 +229,26 @@ export default function CallsTable({ data }: CallsTableProps) {
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                             call.sentiment === 'positive' ? 'bg-green-100 text-green-800' :
                             call.sentiment === 'negative' ? 'bg-red-100 text-red-800' :
+                            call.sentiment === 'parse_failed' ? 'bg-amber-100 text-amber-800' :
                             'bg-gray-100 text-gray-800'
                           }`}>
                             {call.sentiment || 'neutral'}
                           </span>
+                          {call.review?.status === 'corrected' && (
+                            <span className="ml-2 text-xs text-primary-600" title={`Overridden by ${call.review.reviewedBy || 'a reviewer'}`}>
+                              edited
+                            </span>
+                          )}
+                          {hasModelDisagreement(call) && (
+                            <span className="ml-2 text-xs text-purple-700" title="The consensus models gave different labels">
+                              split
+                            </span>
+                          )}
+                          {call.modelSwitch && (
+                            <span className="ml-2 text-xs text-amber-700" title={`Answered by ${describeModelSwitch(call.modelSwitch)}`}>
+                              fallback
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-500">
                           <div className="flex flex-wrap gap-1">
@@ -233,6 +290,13 @@ export default function CallsTable({ data }: CallsTableProps) {
                               <div>
                                 <h4 className="font-semibold text-gray-700 mb-1">AI Analysis:</h4>
                                 <p className="text-sm text-gray-600">{call.aiAnalysis || 'N/A'}</p>
+                                {call.analysisCoverage && call.analysisCoverage !== 'full' && (
+                                  <p className="text-xs text-amber-600 mt-1">
+                                    {call.analysisCoverage === 'chunked'
+                                      ? 'Long transcript: analyzed in chunks and merged'
+                                      : 'Long transcript: only the beginning was analyzed'}
+                                  </p>
+                                )}
                               </div>
                               <div>
                                 <h4 className="font-semibold text-gray-700 mb-1">All Categories:</h4>
@@ -244,6 +308,116 @@ export default function CallsTable({ data }: CallsTableProps) {
                                   ))}
                                 </div>
                               </div>
+                              {call.modelSwitch && (
+                                <div className="text-sm text-gray-600">
+                                  <h4 className="font-semibold text-gray-700 mb-1">Answered By:</h4>
+                                  <p>{describeModelSwitch(call.modelSwitch)}</p>
+                                </div>
+                              )}
+                              {call.rowIssues && call.rowIssues.length > 0 && (
+                                <div className="text-sm text-gray-600">
+                                  <h4 className="font-semibold text-gray-700 mb-1">Data Warnings:</h4>
+                                  {call.rowIssues.map((issue) => (
+                                    <p key={issue.code} className="text-amber-600">{issue.message}</p>
+                                  ))}
+                                </div>
+                              )}
+                              {call.sourceSheet && (
+                                <div className="text-sm text-gray-600">
+                                  <h4 className="font-semibold text-gray-700 mb-1">Source Sheet:</h4>
+                                  <p>{call.sourceSheet}</p>
+                                </div>
+                              )}
+                              {call.usage && (
+                                <div className="text-sm text-gray-600">
+                                  <h4 className="font-semibold text-gray-700 mb-1">Token Usage:</h4>
+                                  <p>
+                                    {call.usage.promptTokens} prompt + {call.usage.completionTokens} completion tokens, {formatCost(call.usage.costUsd)}
+                                    {call.usage.estimated && ' (estimated)'}
+                                  </p>
+                                </div>
+                              )}
+                              {call.ensemble && (
+                                <div className="text-sm text-gray-600">
+                                  <h4 className="font-semibold text-gray-700 mb-1">Model Votes:</h4>
+                                  <p className="text-xs text-gray-500 mb-1">
+                                    {call.ensemble.models.join(', ')}
+                                    {call.ensemble.failedModels && ` (failed: ${call.ensemble.failedModels.join(', ')})`}
+                                  </p>
+                                  <div className="flex flex-wrap gap-2">
+                                    {Object.entries(call.ensemble.categoryVotes)
+                                      .concat(Object.entries(call.ensemble.sentimentVotes))
+                                      .map(([label, votes]) => (
+                                        <span
+                                          key={label}
+                                          className={`px-2 py-1 rounded text-xs ${
+                                            votes === call.ensemble!.models.length
+                                              ? 'bg-gray-100 text-gray-700'
+                                              : 'bg-purple-100 text-purple-800'
+                                          }`}
+                                        >
+                                          {label} {votes}/{call.ensemble!.models.length}
+                                        </span>
+                                      ))}
+                                  </div>
+                                </div>
+                              )}
+                              {call.review?.status === 'corrected' && (
+                                <div className="text-sm text-gray-600">
+                                  <h4 className="font-semibold text-gray-700 mb-1">AI Labels:</h4>
+                                  <p>
+                                    {aiLabels(call).categories.join(', ')} · {aiLabels(call).sentiment || 'neutral'}
+                                  </p>
+                                </div>
+                              )}
+                              {onCallsChange && editingId !== call.id && (
+                                <div className="flex gap-2">
+                                  <button
+                                    onClick={() => setEditingId(call.id)}
+                                    disabled={!reviewer}
+                                    title={!reviewer ? 'Enter your name to edit labels' : undefined}
+                                    className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                                  >
+                                    <Pencil className="w-4 h-4" />
+                                    <span>Edit Labels</span>
+                                  </button>
+                                  {call.review?.status === 'corrected' && (
+                                    <button
+                                      onClick={() => updateCall(revertReview(call, reviewer!))}
+                                      disabled={!reviewer}
+                                      className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      <RotateCcw className="w-4 h-4" />
+                                      <span>Revert to AI</span>
+                                    </button>
+                                  )}
+                                </div>
+                              )}
+                              {onCallsChange && editingId === call.id && (
+                                <LabelEditor
+                                  call={call}
+                                  labelOptions={reviewLabelOptions(data.calls, data.taxonomy)}
+                                  onSave={(categories, sentiment) =>
+                                    updateCall(correctReview(call, categories, sentiment, reviewer!))
+                                  }
+                                  onCancel={() => setEditingId(null)}
+                                />
+                              )}
+                              {call.auditTrail && call.auditTrail.length > 0 && (
+                                <div>
+                                  <h4 className="font-semibold text-gray-700 mb-1 flex items-center">
+                                    <History className="w-4 h-4 mr-1" />
+                                    Change History:
+                                  </h4>
+                                  <ul className="text-xs text-gray-600 space-y-1">
+                                    {call.auditTrail.map((entry, idx) => (
+                                      <li key={idx}>
+                                        {new Date(entry.at).toLocaleString()} · {entry.by} · {describeAuditEntry(entry)}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
                               {call.callReason && (
                                 <div>
                                   <h4 className="font-semibold text-gray-700 mb-1">Call Reason:</h4>
@@ -1,14 +1,23 @@
 'use client'
 
+import { useState, useEffect } from 'react'
 import { AnalysisData } from '@/types'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
-import { AlertCircle } from 'lucide-react'
+import { AlertCircle, ChevronRight } from 'lucide-react'
+import { categoryAncestry, categoryLeaf } from '@/lib/categoryHierarchy'
 
 interface CategoryChartProps {
   data: AnalysisData
 }
 
 export default function CategoryChart({ data }: CategoryChartProps) {
+  const [currentGroup, setCurrentGroup] = useState<string | null>(null)
+  const rollups = data?.categoryRollups
+
+  useEffect(() => {
+    setCurrentGroup(null)
+  }, [rollups])
+
   if (!data || !data.categories || !Array.isArray(data.categories)) {
     return (
       <div className="space-y-6">
@@ -42,8 +51,21 @@ export default function CategoryChart({ data }: CategoryChartProps) {
   }
 
   try {
-    const chartData = data.categories.slice(0, 15).map(cat => ({
-      name: cat.category && cat.category.length > 30 ? cat.category.substring(0, 27) + '...' : (cat.category || 'Unknown'),
+    // With nested labels, show one level of the hierarchy at a time.
+    const visibleCategories = rollups
+      ? rollups.filter(cat => (cat.parent || null) === currentGroup)
+      : data.categories
+    const hasChildren = (category: string) =>
+      !!rollups && rollups.some(cat => cat.parent === category)
+    const drillInto = (category: string) => {
+      if (hasChildren(category)) {
+        setCurrentGroup(category)
+      }
+    }
+    const displayName = (category: string) => (rollups ? categoryLeaf(category) : category)
+
+    const chartData = visibleCategories.slice(0, 15).map(cat => ({
+      name: displayName(cat.category || 'Unknown').length > 30 ? displayName(cat.category).substring(0, 27) + '...' : displayName(cat.category || 'Unknown'),
       fullName: cat.category || 'Unknown',
       calls: cat.count || 0,
       percentage: parseFloat((cat.percentage || 0).toFixed(1)),
@@ -54,9 +76,35 @@ export default function CategoryChart({ data }: CategoryChartProps) {
 
     return (
       <div className="space-y-6">
+        {rollups && (
+          <div className="flex items-center flex-wrap gap-1 text-sm">
+            <button
+              onClick={() => setCurrentGroup(null)}
+              className={currentGroup ? 'text-primary-600 hover:underline' : 'font-semibold text-gray-800'}
+            >
+              All groups
+            </button>
+            {currentGroup && categoryAncestry(currentGroup).map((path, idx, all) => (
+              <span key={path} className="flex items-center gap-1">
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+                <button
+                  onClick={() => setCurrentGroup(path)}
+                  disabled={idx === all.length - 1}
+                  className={idx === all.length - 1 ? 'font-semibold text-gray-800' : 'text-primary-600 hover:underline'}
+                >
+                  {categoryLeaf(path)}
+                </button>
+              </span>
+            ))}
+            <span className="text-gray-500 ml-2">Click a bar or card to see its subcategories</span>
+          </div>
+        )}
+
         <div>
           <h3 className="text-lg font-semibold text-gray-800 mb-4">
-            Top 15 Categories by Call Volume
+            {rollups
+              ? currentGroup ? `Subcategories of ${categoryLeaf(currentGroup)}` : 'Top-Level Category Groups'
+              : 'Top 15 Categories by Call Volume'}
           </h3>
           <ResponsiveContainer width="100%" height={400}>
             <BarChart data={chartData} layout="vertical" margin={{ left: 200 }}>
@@ -78,7 +126,13 @@ export default function CategoryChart({ data }: CategoryChartProps) {
                   return null
                 }}
               />
-              <Bar dataKey="calls" fill="#0ea5e9" radius={[0, 8, 8, 0]} />
+              <Bar
+                dataKey="calls"
+                fill="#0ea5e9"
+                radius={[0, 8, 8, 0]}
+                cursor={rollups ? 'pointer' : undefined}
+                onClick={(entry: any) => entry?.fullName && drillInto(entry.fullName)}
+              />
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -102,10 +156,17 @@ export default function CategoryChart({ data }: CategoryChartProps) {
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {data.categories.map((cat, idx) => (
-            <div key={idx} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-all">
+          {visibleCategories.map((cat, idx) => (
+            <div
+              key={idx}
+              onClick={() => drillInto(cat.category)}
+              className={`bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-all ${hasChildren(cat.category) ? 'cursor-pointer' : ''}`}
+            >
               <div className="flex items-start justify-between mb-2">
-                <h4 className="font-semibold text-gray-800 text-sm">{cat.category || 'Unknown'}</h4>
+                <h4 className="font-semibold text-gray-800 text-sm flex items-center">
+                  {displayName(cat.category || 'Unknown')}
+                  {hasChildren(cat.category) && <ChevronRight className="w-4 h-4 ml-1 text-gray-400" />}
+                </h4>
                 <span className="bg-primary-100 text-primary-700 text-xs px-2 py-1 rounded-full font-medium">
                   #{idx + 1}
                 </span>
@@ -119,6 +180,14 @@ export default function CategoryChart({ data }: CategoryChartProps) {
                   <span className="text-gray-600">Percentage:</span>
                   <span className="font-semibold text-gray-800">{(cat.percentage || 0).toFixed(1)}%</span>
                 </div>
+                {cat.agreementRate !== undefined && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">Model Agreement:</span>
+                    <span className={`font-semibold ${cat.agreementRate < 0.7 ? 'text-purple-700' : 'text-gray-800'}`}>
+                      {(cat.agreementRate * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                )}
                 <div className="pt-2 border-t border-gray-100">
                   <div className="flex items-center justify-between text-xs">
                     <span className="text-green-600">👍 {cat.sentiment?.positive || 0}</span>
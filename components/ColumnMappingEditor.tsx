@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ColumnMapping, ColumnMappingPreset, FilePreview, MappedCallField } from '@/types'
+import { COLUMN_FIELDS } from '@/lib/columnMapping'
+
+interface ColumnMappingEditorProps {
+  preview: FilePreview
+  mapping: ColumnMapping
+  errors: string[]
+  disabled?: boolean
+  onChange: (mapping: ColumnMapping) => void
+}
+
+/**
+ * Mapping step of the upload: shows the file's columns and first rows, lets
+ * each CallData field be pointed at a column, and saves or applies mappings
+ * as presets per source system.
+ */
+export default function ColumnMappingEditor({ preview, mapping, errors, disabled = false, onChange }: ColumnMappingEditorProps) {
+  const [presets, setPresets] = useState<ColumnMappingPreset[]>([])
+  const [presetName, setPresetName] = useState('')
+  const [presetMessage, setPresetMessage] = useState('')
+
+  useEffect(() => {
+    fetch('/api/column-presets')
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setPresets(result.presets)
+        }
+      })
+      .catch((err) => console.error('Error loading column mapping presets:', err))
+  }, [])
+
+  const setField = (field: MappedCallField, column: string) => {
+    const updated: ColumnMapping = { ...mapping }
+    if (column) {
+      updated[field] = column
+    } else {
+      delete updated[field]
+    }
+    onChange(updated)
+  }
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name)
+    if (!preset) return
+    onChange(preset.mapping)
+    setPresetName(preset.name)
+    setPresetMessage(`Applied preset "${preset.name}"`)
+  }
+
+  const handleSavePreset = async () => {
+    setPresetMessage('')
+    try {
+      const response = await fetch('/api/column-presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: presetName, mapping }),
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save preset')
+      }
+      setPresets((prev) =>
+        [...prev.filter((p) => p.name.toLowerCase() !== result.preset.name.toLowerCase()), result.preset]
+          .sort((a, b) => a.name.localeCompare(b.name))
+      )
+      setPresetMessage(`Saved preset "${result.preset.name}"`)
+    } catch (err: any) {
+      setPresetMessage(err.message || 'Failed to save preset')
+    }
+  }
+
+  const handleDeletePreset = async () => {
+    setPresetMessage('')
+    try {
+      const response = await fetch(`/api/column-presets?name=${encodeURIComponent(presetName)}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete preset')
+      }
+      setPresets((prev) => prev.filter((p) => p.name.toLowerCase() !== presetName.trim().toLowerCase()))
+      setPresetMessage(`Deleted preset "${presetName}"`)
+    } catch (err: any) {
+      setPresetMessage(err.message || 'Failed to delete preset')
+    }
+  }
+
+  const firstRow = preview.sampleRows[0] || {}
+  const hasPreset = presets.some((p) => p.name.toLowerCase() === presetName.trim().toLowerCase())
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800">
+          Column mapping
+          <span className="ml-2 font-normal text-gray-500">
+            {preview.columns.length} columns, {preview.totalRows} rows
+          </span>
+        </h3>
+        {presets.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => applyPreset(e.target.value)}
+            disabled={disabled}
+            className="px-3 py-2 border border-gray-300 text-black rounded text-sm bg-white disabled:bg-gray-50"
+          >
+            <option value="">Apply a saved preset...</option>
+            {presets.map((p) => (
+              <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {COLUMN_FIELDS.map(({ field, label, required }) => (
+          <label key={field} className="block text-sm text-gray-600">
+            {label}
+            {required && <span className="text-red-600"> *</span>}
+            <select
+              value={mapping[field] || ''}
+              onChange={(e) => setField(field, e.target.value)}
+              disabled={disabled}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 text-black rounded text-sm bg-white disabled:bg-gray-50"
+            >
+              <option value="">Not mapped</option>
+              {preview.columns.map((column) => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+            {mapping[field] && firstRow[mapping[field] as string] && (
+              <span className="block text-xs text-gray-400 truncate mt-0.5">
+                e.g. {firstRow[mapping[field] as string]}
+              </span>
+            )}
+          </label>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 mt-3 space-y-1">
+          {errors.map((mappingError) => (
+            <li key={mappingError}>{mappingError}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="bg-gray-50">
+              {preview.columns.map((column) => (
+                <th key={column} className="px-2 py-1 text-left font-medium text-gray-600 whitespace-nowrap">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.sampleRows.map((row, index) => (
+              <tr key={index} className="border-t border-gray-100">
+                {preview.columns.map((column) => (
+                  <td key={column} className="px-2 py-1 text-gray-700 max-w-xs truncate">{row[column] || ''}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2 mt-4">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          disabled={disabled}
+          placeholder="Source system, e.g. RingCentral export"
+          className="flex-1 px-3 py-2 border border-gray-300 text-black rounded text-sm disabled:bg-gray-50"
+        />
+        <button
+          type="button"
+          onClick={handleSavePreset}
+          disabled={disabled || !presetName.trim()}
+          className="px-3 py-2 border border-gray-300 text-gray-700 rounded text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {hasPreset ? 'Update preset' : 'Save preset'}
+        </button>
+        {hasPreset && (
+          <button
+            type="button"
+            onClick={handleDeletePreset}
+            disabled={disabled}
+            className="px-3 py-2 text-sm text-gray-500 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {presetMessage || 'Columns were matched to fields by their headers. Save the mapping to reuse it for the next export from the same system.'}
+      </p>
+    </div>
+  )
+}
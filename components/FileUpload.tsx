@@ -2,10 +2,24 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { Upload, FileSpreadsheet, AlertCircle, CheckCircle } from 'lucide-react'
-import { AnalysisData } from '@/types'
+import { AnalysisData, CacheMode, ColumnMapping, FilePreview, PromptProfile, SheetSelection, TokenUsage } from '@/types'
+import { parseTaxonomy } from '@/lib/taxonomy'
+import { MAX_ENSEMBLE_MODELS } from '@/lib/ensemble'
+import { MAX_FALLBACK_MODELS } from '@/lib/modelFallback'
+import { formatCost, formatTokens } from '@/lib/usage'
+import { DEFAULT_PROMPT_PROFILE } from '@/lib/promptProfiles'
+import { detectFileFormat, FILE_INPUT_ACCEPT, SUPPORTED_FORMATS_TEXT } from '@/lib/fileFormats'
+import { validateColumnMapping } from '@/lib/columnMapping'
 import ModelSelector, { ModelConfig } from './ModelSelector'
+import ModelListEditor from './ModelListEditor'
+import PromptProfileEditor from './PromptProfileEditor'
+import ColumnMappingEditor from './ColumnMappingEditor'
+import SheetSelector from './SheetSelector'
 import LogViewer, { LogEntry } from './LogViewer'
 
+/** Quiet period before re-estimating, so typing in the taxonomy box doesn't upload the file on every keystroke. */
+const ESTIMATE_DEBOUNCE_MS = 500
+
 interface FileUploadProps {
   onAnalysisComplete: (data: AnalysisData, report?: string, modelConfig?: ModelConfig) => void
   onAnalysisStart: () => void
@@ -21,9 +35,23 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
   const [error, setError] = useState<string>('')
   const [isDragging, setIsDragging] = useState(false)
   const [modelConfig, setModelConfig] = useState<ModelConfig | null>(null)
+  const [batchSize, setBatchSize] = useState(1)
+  const [ensembleModels, setEnsembleModels] = useState<Array<ModelConfig | null>>([])
+  const [fallbackModels, setFallbackModels] = useState<Array<ModelConfig | null>>([])
+  const [cacheMode, setCacheMode] = useState<CacheMode>('use')
+  const [cacheMessage, setCacheMessage] = useState('')
+  const [taxonomyText, setTaxonomyText] = useState('')
+  const [taxonomyError, setTaxonomyError] = useState('')
+  const [taxonomySize, setTaxonomySize] = useState(0)
+  const [profile, setProfile] = useState<PromptProfile>(DEFAULT_PROMPT_PROFILE)
+  const [sheetSelection, setSheetSelection] = useState<SheetSelection>([])
+  const [preview, setPreview] = useState<FilePreview | null>(null)
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({})
+  const [estimate, setEstimate] = useState<{ calls: number; rejectedRows: number; usage: TokenUsage } | null>(null)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [logs, setLogs] = useState<LogEntry[]>([])
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const taxonomyInputRef = useRef<HTMLInputElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
 
   const handleFileChange = (selectedFile: File | null) => {
@@ -34,13 +62,14 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
       return
     }
     
+    setSheetSelection([])
     if (!selectedFile) {
       setFile(null)
       return
     }
 
-    if (!selectedFile.name.endsWith('.xlsx') && !selectedFile.name.endsWith('.xls')) {
-      setError('Please upload an Excel file (.xlsx or .xls)')
+    if (!detectFileFormat(selectedFile.name)) {
+      setError(`Please upload a supported file (${SUPPORTED_FORMATS_TEXT})`)
       setFile(null)
       return
     }
@@ -115,6 +144,126 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
     }
   })
 
+  const handleClearCache = async () => {
+    setCacheMessage('')
+    try {
+      const response = await fetch('/api/cache', { method: 'DELETE' })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to clear cache')
+      }
+      setCacheMessage(`Cleared ${result.removed} cached result(s)`)
+    } catch (err: any) {
+      setCacheMessage(err.message || 'Failed to clear cache')
+    }
+  }
+
+  const handleTaxonomyChange = (text: string) => {
+    setTaxonomyText(text)
+    if (!text.trim()) {
+      setTaxonomyError('')
+      setTaxonomySize(0)
+      return
+    }
+    try {
+      setTaxonomySize(parseTaxonomy(text).categories.length)
+      setTaxonomyError('')
+    } catch (err: any) {
+      setTaxonomySize(0)
+      setTaxonomyError(err.message || 'Invalid taxonomy')
+    }
+  }
+
+  const handleTaxonomyFile = async (taxonomyFile: File | null) => {
+    if (!taxonomyFile) return
+    handleTaxonomyChange(await taxonomyFile.text())
+    if (taxonomyInputRef.current) {
+      taxonomyInputRef.current.value = ''
+    }
+  }
+
+  const sheetsField = sheetSelection === 'matching'
+    ? 'matching'
+    : sheetSelection.length > 0 ? JSON.stringify(sheetSelection) : ''
+
+  // Read the columns and first rows of the file (or the selected sheets) and start from the suggested column mapping.
+  useEffect(() => {
+    setPreview(null)
+    setColumnMapping({})
+    if (!file) {
+      return
+    }
+    const formData = new FormData()
+    formData.append('file', file)
+    if (sheetsField) {
+      formData.append('sheets', sheetsField)
+    }
+
+    let cancelled = false
+    fetch('/api/preview', { method: 'POST', body: formData })
+      .then((response) => response.json())
+      .then((result) => {
+        if (cancelled) return
+        if (result.success) {
+          setPreview(result.preview)
+          setColumnMapping(result.preview.suggestedMapping)
+        } else {
+          setError(result.error || 'Could not read the file')
+        }
+      })
+      .catch((err) => console.error('Error previewing file:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [file, sheetsField])
+
+  const columnMappingErrors = preview ? validateColumnMapping(columnMapping, preview.columns) : []
+
+  // Re-estimate the token usage and cost whenever the file or the settings that drive it change.
+  useEffect(() => {
+    setEstimate(null)
+    if (!file || !preview || !modelConfig || !modelConfig.provider || !modelConfig.model || taxonomyError) {
+      return
+    }
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('provider', modelConfig.provider)
+    formData.append('model', modelConfig.model)
+    formData.append('batchSize', String(batchSize))
+    formData.append('columnMapping', JSON.stringify(columnMapping))
+    if (sheetsField) {
+      formData.append('sheets', sheetsField)
+    }
+    if (taxonomyText.trim()) {
+      formData.append('taxonomy', taxonomyText)
+    }
+    const selectedEnsemble = ensembleModels.filter((config): config is ModelConfig => !!config)
+    if (selectedEnsemble.length > 0) {
+      formData.append('ensemble', JSON.stringify(selectedEnsemble))
+    }
+
+    // Aborting also stops the upload of a request that is already on its way.
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      fetch('/api/estimate', { method: 'POST', body: formData, signal: controller.signal })
+        .then((response) => response.json())
+        .then((result) => {
+          if (result.success) {
+            setEstimate({ calls: result.calls, rejectedRows: result.rejectedRows, usage: result.estimate })
+          }
+        })
+        .catch((err) => {
+          if (err.name !== 'AbortError') {
+            console.error('Error estimating usage:', err)
+          }
+        })
+    }, ESTIMATE_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [file, preview, columnMapping, sheetsField, modelConfig, batchSize, ensembleModels, taxonomyText, taxonomyError])
+
   const handleAnalyze = async () => {
     if (!file) {
       setError('Please select a file first')
@@ -126,6 +275,16 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
       return
     }
 
+    if (taxonomyError) {
+      setError(`Fix the category taxonomy first: ${taxonomyError}`)
+      return
+    }
+
+    if (columnMappingErrors.length > 0) {
+      setError(`Fix the column mapping first: ${columnMappingErrors.join(', ')}`)
+      return
+    }
+
     abortControllerRef.current = new AbortController()
     setIsAnalyzing(true)
     setLogs([])
@@ -137,6 +296,26 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
       formData.append('file', file)
       formData.append('provider', modelConfig.provider)
       formData.append('model', modelConfig.model)
+      formData.append('batchSize', String(batchSize))
+      formData.append('cacheMode', cacheMode)
+      if (taxonomyText.trim()) {
+        formData.append('taxonomy', taxonomyText)
+      }
+      formData.append('profile', JSON.stringify(profile))
+      if (preview) {
+        formData.append('columnMapping', JSON.stringify(columnMapping))
+      }
+      if (sheetsField) {
+        formData.append('sheets', sheetsField)
+      }
+      const selectedEnsemble = ensembleModels.filter((config): config is ModelConfig => !!config)
+      if (selectedEnsemble.length > 0) {
+        formData.append('ensemble', JSON.stringify(selectedEnsemble))
+      }
+      const selectedFallback = fallbackModels.filter((config): config is ModelConfig => !!config)
+      if (selectedEnsemble.length === 0 && selectedFallback.length > 0) {
+        formData.append('fallback', JSON.stringify(selectedFallback))
+      }
 
       const response = await fetch('/api/analyze-stream', {
         method: 'POST',
@@ -302,7 +481,7 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
             Upload Your Call Data
           </h2>
           <p className="text-gray-600">
-            Upload an Excel file containing call transcriptions for AI-powered analysis
+            Upload an Excel, CSV or JSON file containing call transcriptions for AI-powered analysis
           </p>
         </div>
 
@@ -316,6 +495,114 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
             }}
             disabled={isAnalyzing || !!file}
           />
+          <ModelListEditor
+            label="Consensus models (optional)"
+            models={ensembleModels}
+            maxModels={MAX_ENSEMBLE_MODELS}
+            disabled={isAnalyzing || !!file}
+            onChange={setEnsembleModels}
+            hint={
+              ensembleModels.length > 0
+                ? 'Every call is analyzed by each model; categories and sentiment are decided by majority vote and calls where the models disagree are flagged for review.'
+                : 'Run each call through up to two more models and combine the answers by vote.'
+            }
+          />
+          {ensembleModels.length === 0 && (
+            <ModelListEditor
+              label="Fallback models (optional)"
+              models={fallbackModels}
+              maxModels={MAX_FALLBACK_MODELS}
+              disabled={isAnalyzing || !!file}
+              onChange={setFallbackModels}
+              hint="Tried in order when the model above is still rate-limited or failing after its retries, or has used up its daily quota."
+            />
+          )}
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Calls per request
+            </label>
+            <select
+              value={ensembleModels.length > 0 ? 1 : batchSize}
+              onChange={(e) => setBatchSize(Number(e.target.value))}
+              disabled={isAnalyzing || ensembleModels.length > 0}
+              className="w-full px-4 py-3 border-2 border-gray-300 text-black rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-gray-50 disabled:cursor-not-allowed"
+            >
+              <option value={1}>1 (one request per call)</option>
+              <option value={5}>5 short calls per request</option>
+              <option value={10}>10 short calls per request</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Packing short transcripts together uses far fewer requests on rate-limited free tiers.
+            </p>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Result cache
+            </label>
+            <div className="flex items-center gap-3">
+              <select
+                value={cacheMode}
+                onChange={(e) => setCacheMode(e.target.value as CacheMode)}
+                disabled={isAnalyzing}
+                className="flex-1 px-4 py-3 border-2 border-gray-300 text-black rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-gray-50 disabled:cursor-not-allowed"
+              >
+                <option value="use">Reuse cached results for unchanged calls</option>
+                <option value="refresh">Re-analyze all calls and refresh the cache</option>
+                <option value="bypass">Bypass the cache</option>
+              </select>
+              <button
+                type="button"
+                onClick={handleClearCache}
+                disabled={isAnalyzing}
+                className="px-4 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Clear cache
+              </button>
+            </div>
+            {cacheMessage && (
+              <p className="text-xs text-gray-500 mt-1">{cacheMessage}</p>
+            )}
+          </div>
+          <PromptProfileEditor profile={profile} disabled={isAnalyzing} onChange={setProfile} />
+          <div className="mt-4">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Category taxonomy (optional)
+              </label>
+              <button
+                type="button"
+                onClick={() => taxonomyInputRef.current?.click()}
+                disabled={isAnalyzing}
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Load from file
+              </button>
+              <input
+                ref={taxonomyInputRef}
+                type="file"
+                accept=".json,.txt,.tsv"
+                onChange={(e) => handleTaxonomyFile(e.target.files?.[0] || null)}
+                className="hidden"
+              />
+            </div>
+            <textarea
+              value={taxonomyText}
+              onChange={(e) => handleTaxonomyChange(e.target.value)}
+              disabled={isAnalyzing}
+              rows={4}
+              placeholder={'One category per line: Name | Description | Parent\nPricing Inquiry | Customer asks what a service costs\nBrake Pricing | Cost of brake work | Pricing Inquiry'}
+              className="w-full px-4 py-3 border-2 border-gray-300 text-black text-sm font-mono rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-gray-50 disabled:cursor-not-allowed"
+            />
+            {taxonomyError ? (
+              <p className="text-xs text-red-600 mt-1">{taxonomyError}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                {taxonomySize > 0
+                  ? `${taxonomySize} categories loaded. Calls that fit none of them are filed under OTHER with a suggested name.`
+                  : 'Leave empty to let the model name categories freely. JSON ([{"name", "description", "parent"}]) is also accepted.'}
+              </p>
+            )}
+          </div>
         </div>
 
         <div
@@ -333,7 +620,7 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
           <input
             ref={fileInputRef}
             type="file"
-            accept=".xlsx,.xls"
+            accept={FILE_INPUT_ACCEPT}
             onChange={(e) => {
               if (modelConfig && modelConfig.provider && modelConfig.model) {
                 handleFileChange(e.target.files?.[0] || null)
@@ -363,7 +650,7 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
                 Browse Files
               </button>
               <p className="text-xs text-gray-400 mt-4">
-                Supported formats: .xlsx, .xls (Max size: 10MB)
+                Supported formats: {SUPPORTED_FORMATS_TEXT} (Max size: 10MB)
               </p>
             </>
           ) : !file ? (
@@ -374,7 +661,7 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
                 </div>
               </div>
               <p className="text-lg font-medium text-gray-700 mb-2">
-                Drag and drop your Excel file here
+                Drag and drop your call file here
               </p>
               <p className="text-sm text-gray-500 mb-4">or</p>
               <button
@@ -384,7 +671,7 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
                 Browse Files
               </button>
               <p className="text-xs text-gray-500 mt-4">
-                Supported formats: .xlsx, .xls (Max size: 10MB)
+                Supported formats: {SUPPORTED_FORMATS_TEXT} (Max size: 10MB)
               </p>
             </>
           ) : (
@@ -401,6 +688,21 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
               <p className="text-sm text-gray-500 mb-4">
                 {(file.size / 1024 / 1024).toFixed(2)} MB
               </p>
+              {estimate && (
+                <p className="text-sm text-gray-600 mb-4">
+                  Estimated for {estimate.calls} calls: {estimate.usage.requests} request(s),{' '}
+                  ~{formatTokens(estimate.usage.promptTokens + estimate.usage.completionTokens)} tokens,{' '}
+                  {formatCost(estimate.usage.costUsd)}
+                  <span className="block text-xs text-gray-400">
+                    Before cached results, retries and correction requests
+                  </span>
+                  {estimate.rejectedRows > 0 && (
+                    <span className="block text-xs text-amber-600">
+                      {estimate.rejectedRows} invalid row(s) will be skipped
+                    </span>
+                  )}
+                </p>
+              )}
               <div className="flex justify-center space-x-4">
                 <button
                   onClick={() => {
@@ -414,7 +716,7 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
                 </button>
                 <button
                   onClick={handleAnalyze}
-                  disabled={isAnalyzing || !modelConfig || !modelConfig.provider || !modelConfig.model}
+                  disabled={isAnalyzing || columnMappingErrors.length > 0 || !modelConfig || !modelConfig.provider || !modelConfig.model}
                   className="bg-gradient-to-r from-primary-600 to-purple-600 text-white px-8 py-3 rounded-lg font-medium hover:from-primary-700 hover:to-purple-700 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isAnalyzing ? 'Analyzing...' : 'Analyze with AI'}
@@ -424,6 +726,27 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
           )}
         </div>
 
+        {file && preview?.sheets && preview.sheets.length > 1 && (
+          <SheetSelector
+            sheets={preview.sheets}
+            usedSheets={preview.usedSheets || []}
+            skippedSheets={preview.skippedSheets}
+            selection={sheetSelection}
+            disabled={isAnalyzing}
+            onChange={setSheetSelection}
+          />
+        )}
+
+        {file && preview && (
+          <ColumnMappingEditor
+            preview={preview}
+            mapping={columnMapping}
+            errors={columnMappingErrors}
+            disabled={isAnalyzing}
+            onChange={setColumnMapping}
+          />
+        )}
+
         {error && (
           <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
             <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
@@ -436,12 +759,14 @@ export default function FileUpload({ onAnalysisComplete, onAnalysisStart, onAnal
 
         <div className="mt-8 p-6 bg-blue-50 rounded-lg border border-blue-200">
           <h3 className="text-sm font-semibold text-blue-900 mb-3">
-            📋 Required Excel Columns:
+            📋 Required Columns:
           </h3>
           <ul className="text-sm text-blue-800 space-y-2">
             <li>• <strong>Originating Number</strong> - Phone number of caller</li>
             <li>• <strong>Transcript</strong> or <strong>summary_points</strong> - Call transcription</li>
             <li>• Optional: customer_name, call_reason, issues_discussed, customer_sentiment, outcome_status</li>
+            <li>• Columns with other names are matched by their headers; check or change the match in the column mapping step</li>
+            <li>• Rows with an empty transcript are skipped and can be downloaded from the results</li>
           </ul>
         </div>
       </div>
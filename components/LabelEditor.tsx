@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { CallData } from '@/types'
+
+const SENTIMENTS = ['positive', 'neutral', 'negative']
+
+interface LabelEditorProps {
+  call: CallData
+  labelOptions: string[]
+  onSave: (categories: string[], sentiment: string) => void
+  onCancel: () => void
+}
+
+/** Inline editor for a call's categories and sentiment. */
+export default function LabelEditor({ call, labelOptions, onSave, onCancel }: LabelEditorProps) {
+  const [categories, setCategories] = useState<string[]>(
+    call.categories.filter((c) => !c.startsWith('UNCATEGORIZED'))
+  )
+  const [newCategory, setNewCategory] = useState('')
+  const [sentiment, setSentiment] = useState(
+    SENTIMENTS.includes(call.sentiment || '') ? call.sentiment! : 'neutral'
+  )
+
+  const addCategory = () => {
+    const label = newCategory.trim()
+    if (label && !categories.includes(label)) {
+      setCategories([...categories, label])
+    }
+    setNewCategory('')
+  }
+
+  return (
+    <div className="mt-3 p-4 bg-white border border-gray-200 rounded-lg space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Categories</label>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {categories.map((category) => (
+            <span
+              key={category}
+              className="inline-flex items-center px-2 py-1 bg-primary-100 text-primary-700 text-xs rounded-full"
+            >
+              {category}
+              <button
+                onClick={() => setCategories(categories.filter((c) => c !== category))}
+                className="ml-1 hover:text-primary-900"
+                aria-label={`Remove ${category}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            list={`label-options-${call.id}`}
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                addCategory()
+              }
+            }}
+            placeholder="Add a category"
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <datalist id={`label-options-${call.id}`}>
+            {labelOptions.map((label) => (
+              <option key={label} value={label} />
+            ))}
+          </datalist>
+          <button
+            onClick={addCategory}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Sentiment</label>
+        <select
+          value={sentiment}
+          onChange={(e) => setSentiment(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+        >
+          {SENTIMENTS.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(categories, sentiment)}
+          disabled={categories.length === 0}
+          className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-sm hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
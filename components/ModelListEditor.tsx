@@ -0,0 +1,53 @@
+'use client'
+
+import ModelSelector, { ModelConfig } from './ModelSelector'
+
+interface ModelListEditorProps {
+  label: string
+  models: Array<ModelConfig | null>
+  maxModels: number
+  disabled?: boolean
+  onChange: (models: Array<ModelConfig | null>) => void
+  hint?: string
+}
+
+/** Ordered list of additional models, each picked with its own ModelSelector. */
+export default function ModelListEditor({ label, models, maxModels, disabled = false, onChange, hint }: ModelListEditorProps) {
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">{label}</label>
+        {models.length < maxModels && (
+          <button
+            type="button"
+            onClick={() => onChange([...models, null])}
+            disabled={disabled}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add model
+          </button>
+        )}
+      </div>
+      {models.map((config, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4 mb-2">
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => onChange(models.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Remove
+            </button>
+          </div>
+          <ModelSelector
+            onModelSelect={(selected) => onChange(models.map((c, i) => (i === index ? selected : c)))}
+            disabled={disabled}
+            initialValue={config}
+          />
+        </div>
+      ))}
+      {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </div>
+  )
+}
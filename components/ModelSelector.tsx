@@ -2,22 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import { ChevronDown, Check, Info } from 'lucide-react'
+import { ModelConfig, ModelInfo, ProviderInfo } from '@/types'
 
-export type Provider = 'gemini' | 'groq'
-export type ModelConfig = {
-  provider: Provider
-  model: string
-}
-
-interface ModelInfo {
-  value: string
-  label: string
-  requestsPerMinute: number | string
-  requestsPerDay: number | string
-  tokensPerMinute: number | string
-  tokensPerDay: number | string
-  contextWindow?: string
-}
+export type { ModelConfig } from '@/types'
 
 interface ModelSelectorProps {
   onModelSelect: (config: ModelConfig) => void
@@ -25,161 +12,58 @@ interface ModelSelectorProps {
   initialValue?: ModelConfig | null
 }
 
-const GEMINI_MODELS: ModelInfo[] = [
-  { 
-    value: 'gemini-2.5-flash', 
-    label: 'Gemini 2.5 Flash',
-    requestsPerMinute: 10,
-    requestsPerDay: '1.5K',
-    tokensPerMinute: '1M',
-    tokensPerDay: '1M',
-    contextWindow: '1M tokens'
-  }
-]
+function formatLimit(value?: number): string {
+  if (value === undefined) return 'No limit'
+  if (value >= 1000000) return `${value / 1000000}M`
+  if (value >= 1000) return `${value / 1000}K`
+  return String(value)
+}
 
-const GROQ_MODELS: ModelInfo[] = [
-  { 
-    value: 'groq/compound', 
-    label: 'Groq Compound',
-    requestsPerMinute: 30,
-    requestsPerDay: 250,
-    tokensPerMinute: '70K',
-    tokensPerDay: 'No limit',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'groq/compound-mini', 
-    label: 'Groq Compound Mini',
-    requestsPerMinute: 30,
-    requestsPerDay: 250,
-    tokensPerMinute: '70K',
-    tokensPerDay: 'No limit',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'llama-3.3-70b-versatile', 
-    label: 'Llama 3.3 70B Versatile',
-    requestsPerMinute: 30,
-    requestsPerDay: '1K',
-    tokensPerMinute: '12K',
-    tokensPerDay: '100K',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'llama-3.1-8b-instant', 
-    label: 'Llama 3.1 8B Instant',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'llama-3.1-70b-instant', 
-    label: 'Llama 3.1 70B Instant',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'mixtral-8x7b-32768', 
-    label: 'Mixtral 8x7B',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '32K tokens'
-  },
-  { 
-    value: 'gemma2-9b-it', 
-    label: 'Gemma2 9B IT',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '8K tokens'
-  },
-  { 
-    value: 'allam-2-7b', 
-    label: 'Allam 2 7B',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '8K tokens'
-  },
-  { 
-    value: 'meta-llama/llama-3.1-8b-instant', 
-    label: 'Meta Llama 3.1 8B Instant',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'meta-llama/llama-3.1-70b-instant', 
-    label: 'Meta Llama 3.1 70B Instant',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'meta-llama/llama-3.1-405b-instruct', 
-    label: 'Meta Llama 3.1 405B Instruct',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'meta-llama/llama-3.3-70b-instruct', 
-    label: 'Meta Llama 3.3 70B Instruct',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '128K tokens'
-  },
-  { 
-    value: 'meta-llama/llama-3.3-70b-versatile', 
-    label: 'Meta Llama 3.3 70B Versatile',
-    requestsPerMinute: 30,
-    requestsPerDay: '7K',
-    tokensPerMinute: '6K',
-    tokensPerDay: '500K',
-    contextWindow: '128K tokens'
-  },
-]
+function formatContextWindow(tokens?: number): string | undefined {
+  if (!tokens) return undefined
+  if (tokens >= 1000000) return `${tokens / 1000000}M tokens`
+  return `${Math.round(tokens / 1000)}K tokens`
+}
 
 export default function ModelSelector({ onModelSelect, disabled = false, initialValue }: ModelSelectorProps) {
-  const [provider, setProvider] = useState<Provider | ''>(initialValue?.provider || '')
+  const [providers, setProviders] = useState<ProviderInfo[]>([])
+  const [provider, setProvider] = useState<string>(initialValue?.provider || '')
   const [model, setModel] = useState<string>(initialValue?.model || '')
   const [showProviderDropdown, setShowProviderDropdown] = useState(false)
   const [showModelDropdown, setShowModelDropdown] = useState(false)
   const [selectedModelInfo, setSelectedModelInfo] = useState<ModelInfo | null>(null)
 
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/providers')
+      .then(res => res.json())
+      .then(result => {
+        if (!cancelled && result.success) {
+          setProviders(result.providers)
+        }
+      })
+      .catch(err => console.error('Error loading providers:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
   useEffect(() => {
     if (initialValue) {
       setProvider(initialValue.provider)
       setModel(initialValue.model)
-      const availableModels = initialValue.provider === 'gemini' ? GEMINI_MODELS : GROQ_MODELS
-      const modelInfo = availableModels.find(m => m.value === initialValue.model) || null
+      const providerModels = providers.find(p => p.id === initialValue.provider)?.models || []
+      const modelInfo = providerModels.find(m => m.value === initialValue.model) || null
       setSelectedModelInfo(modelInfo)
     } else {
       setProvider('')
       setModel('')
       setSelectedModelInfo(null)
     }
-  }, [initialValue])
+  }, [initialValue, providers])
 
-  const handleProviderSelect = (selectedProvider: Provider) => {
-    setProvider(selectedProvider)
+  const handleProviderSelect = (providerId: string) => {
+    setProvider(providerId)
     setModel('')
     setSelectedModelInfo(null)
     setShowProviderDropdown(false)
@@ -191,10 +75,12 @@ export default function ModelSelector({ onModelSelect, disabled = false, initial
     const modelInfo = availableModels.find(m => m.value === selectedModel) || null
     setSelectedModelInfo(modelInfo)
     setShowModelDropdown(false)
-    onModelSelect({ provider: provider as Provider, model: selectedModel })
+    onModelSelect({ provider, model: selectedModel })
   }
 
-  const availableModels: ModelInfo[] = provider === 'gemini' ? GEMINI_MODELS : GROQ_MODELS
+  const selectedProvider = providers.find(p => p.id === provider)
+  const providerLabel = selectedProvider?.label || provider
+  const availableModels: ModelInfo[] = selectedProvider?.models || []
 
   return (
     <div className="space-y-4">
@@ -216,29 +102,26 @@ export default function ModelSelector({ onModelSelect, disabled = false, initial
             }`}
           >
             <span className={provider ? 'text-gray-900' : 'text-gray-500'}>
-              {provider ? (provider === 'gemini' ? 'Gemini' : 'Groq') : 'Choose Provider'}
+              {provider ? providerLabel : 'Choose Provider'}
             </span>
             <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${showProviderDropdown ? 'rotate-180' : ''}`} />
           </button>
           
           {showProviderDropdown && !disabled && (
             <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg">
-              <button
-                type="button"
-                onClick={() => handleProviderSelect('gemini')}
-                className="w-full px-4 py-3 text-black text-left hover:bg-gray-50 flex items-center justify-between"
-              >
-                <span>Gemini</span>
-                {provider === 'gemini' && <Check className="w-5 h-5 text-primary-600" />}
-              </button>
-              <button
-                type="button"
-                onClick={() => handleProviderSelect('groq')}
-                className="w-full px-4 py-3 text-black text-left hover:bg-gray-50 flex items-center justify-between border-t border-gray-200"
-              >
-                <span>Groq</span>
-                {provider === 'groq' && <Check className="w-5 h-5 text-primary-600" />}
-              </button>
+              {providers.map((p, idx) => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => handleProviderSelect(p.id)}
+                  className={`w-full px-4 py-3 text-black text-left hover:bg-gray-50 flex items-center justify-between ${
+                    idx > 0 ? 'border-t border-gray-200' : ''
+                  }`}
+                >
+                  <span>{p.label}</span>
+                  {provider === p.id && <Check className="w-5 h-5 text-primary-600" />}
+                </button>
+              ))}
             </div>
           )}
         </div>
@@ -284,13 +167,13 @@ export default function ModelSelector({ onModelSelect, disabled = false, initial
                         </div>
                         <div className="text-xs text-gray-600 space-y-0.5 mt-1">
                           <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
-                            <span><strong>Req/min:</strong> {m.requestsPerMinute}</span>
-                            <span><strong>Req/day:</strong> {m.requestsPerDay}</span>
-                            <span><strong>Tokens/min:</strong> {m.tokensPerMinute}</span>
-                            <span><strong>Tokens/day:</strong> {m.tokensPerDay}</span>
+                            <span><strong>Req/min:</strong> {formatLimit(m.limits.requestsPerMinute)}</span>
+                            <span><strong>Req/day:</strong> {formatLimit(m.limits.requestsPerDay)}</span>
+                            <span><strong>Tokens/min:</strong> {formatLimit(m.limits.tokensPerMinute)}</span>
+                            <span><strong>Tokens/day:</strong> {formatLimit(m.limits.tokensPerDay)}</span>
                           </div>
                           {m.contextWindow && (
-                            <span className="block"><strong>Context:</strong> {m.contextWindow}</span>
+                            <span className="block"><strong>Context:</strong> {formatContextWindow(m.contextWindow)}</span>
                           )}
                         </div>
                       </div>
@@ -308,7 +191,7 @@ export default function ModelSelector({ onModelSelect, disabled = false, initial
           <div className="flex items-start justify-between mb-3">
             <div>
               <p className="text-sm font-semibold text-green-900 mb-1">
-                Selected: {provider === 'gemini' ? 'Gemini' : 'Groq'} - {selectedModelInfo.label}
+                Selected: {providerLabel} - {selectedModelInfo.label}
               </p>
               {disabled && (
                 <p className="text-xs text-green-700">
@@ -324,24 +207,24 @@ export default function ModelSelector({ onModelSelect, disabled = false, initial
             <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
               <div>
                 <span className="text-gray-600">Requests/min:</span>
-                <span className="ml-2 font-medium text-gray-900">{selectedModelInfo.requestsPerMinute}</span>
+                <span className="ml-2 font-medium text-gray-900">{formatLimit(selectedModelInfo.limits.requestsPerMinute)}</span>
               </div>
               <div>
                 <span className="text-gray-600">Requests/day:</span>
-                <span className="ml-2 font-medium text-gray-900">{selectedModelInfo.requestsPerDay}</span>
+                <span className="ml-2 font-medium text-gray-900">{formatLimit(selectedModelInfo.limits.requestsPerDay)}</span>
               </div>
               <div>
                 <span className="text-gray-600">Tokens/min:</span>
-                <span className="ml-2 font-medium text-gray-900">{selectedModelInfo.tokensPerMinute}</span>
+                <span className="ml-2 font-medium text-gray-900">{formatLimit(selectedModelInfo.limits.tokensPerMinute)}</span>
               </div>
               <div>
                 <span className="text-gray-600">Tokens/day:</span>
-                <span className="ml-2 font-medium text-gray-900">{selectedModelInfo.tokensPerDay}</span>
+                <span className="ml-2 font-medium text-gray-900">{formatLimit(selectedModelInfo.limits.tokensPerDay)}</span>
               </div>
               {selectedModelInfo.contextWindow && (
                 <div className="col-span-2">
                   <span className="text-gray-600">Context Window:</span>
-                  <span className="ml-2 font-medium text-gray-900">{selectedModelInfo.contextWindow}</span>
+                  <span className="ml-2 font-medium text-gray-900">{formatContextWindow(selectedModelInfo.contextWindow)}</span>
                 </div>
               )}
             </div>
@@ -0,0 +1,48 @@
+'use client'
+
+import { Lightbulb } from 'lucide-react'
+import { OtherSuggestion } from '@/types'
+
+interface OtherSuggestionsProps {
+  suggestions: OtherSuggestion[]
+}
+
+/** Free-text categories proposed for calls filed under OTHER, for taxonomy review. */
+export default function OtherSuggestions({ suggestions }: OtherSuggestionsProps) {
+  if (suggestions.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1 flex items-center">
+        <Lightbulb className="w-5 h-5 mr-2 text-amber-600" />
+        Suggested Categories
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Calls that did not fit the taxonomy were filed under OTHER. Recurring suggestions are candidates for new categories.
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-amber-200">
+            <th className="py-2 font-medium">Suggestion</th>
+            <th className="py-2 font-medium text-right">Calls</th>
+            <th className="py-2 pl-6 font-medium">Call IDs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {suggestions.map((entry) => (
+            <tr key={entry.suggestion} className="border-b border-amber-100 last:border-0">
+              <td className="py-2 text-gray-800">{entry.suggestion}</td>
+              <td className="py-2 text-right text-gray-700">{entry.count}</td>
+              <td className="py-2 pl-6 text-gray-500 truncate max-w-xs">
+                {entry.callIds.slice(0, 10).join(', ')}
+                {entry.callIds.length > 10 ? ` +${entry.callIds.length - 10} more` : ''}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import { useState } from 'react'
+import { PromptProfile } from '@/types'
+import { PROMPT_PROFILES, findPromptProfile } from '@/lib/promptProfiles'
+
+interface PromptProfileEditorProps {
+  profile: PromptProfile
+  disabled?: boolean
+  onChange: (profile: PromptProfile) => void
+}
+
+const FIELDS: Array<{ key: 'businessDescription' | 'tone' | 'language'; label: string; placeholder: string }> = [
+  { key: 'businessDescription', label: 'Business', placeholder: 'e.g. a dental practice' },
+  { key: 'tone', label: 'Report tone', placeholder: 'e.g. concise and direct' },
+  { key: 'language', label: 'Output language', placeholder: 'e.g. Spanish' },
+]
+
+/** Picks a built-in prompt profile and lets its fields be edited for this analysis. */
+export default function PromptProfileEditor({ profile, disabled = false, onChange }: PromptProfileEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const base = findPromptProfile(profile.id)
+  const edited = !!base && FIELDS.some(({ key }) => profile[key] !== base[key])
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Business profile</label>
+        <button
+          type="button"
+          onClick={() => setIsEditing(!isEditing)}
+          disabled={disabled}
+          className="text-sm text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isEditing ? 'Done' : 'Customize'}
+        </button>
+      </div>
+      <select
+        value={profile.id}
+        onChange={(e) => onChange(findPromptProfile(e.target.value) || profile)}
+        disabled={disabled}
+        className="w-full px-4 py-3 border-2 border-gray-300 text-black rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-gray-50 disabled:cursor-not-allowed"
+      >
+        {PROMPT_PROFILES.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+            {edited && p.id === profile.id ? ' (edited)' : ''}
+          </option>
+        ))}
+      </select>
+      {isEditing && (
+        <div className="border border-gray-200 rounded-lg p-4 mt-2 space-y-3">
+          {FIELDS.map(({ key, label, placeholder }) => (
+            <label key={key} className="block text-sm text-gray-600">
+              {label}
+              <input
+                type="text"
+                value={profile[key]}
+                onChange={(e) => onChange({ ...profile, [key]: e.target.value })}
+                disabled={disabled}
+                placeholder={placeholder}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 text-black rounded text-sm disabled:bg-gray-50"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        Frames the categorization and report prompts for {profile.businessDescription || 'your business'}; summaries and reports are written in {profile.language || 'English'}.
+      </p>
+    </div>
+  )
+}
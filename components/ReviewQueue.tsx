@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, ClipboardCheck, Pencil } from 'lucide-react'
+import { CallData, Taxonomy } from '@/types'
+import {
+  REVIEW_REASON_LABELS,
+  ReviewItem,
+  acceptReview,
+  buildReviewQueue,
+  correctReview,
+  reviewLabelOptions,
+} from '@/lib/reviewQueue'
+import LabelEditor from './LabelEditor'
+
+interface ReviewQueueProps {
+  calls: CallData[]
+  taxonomy?: Taxonomy
+  threshold: number
+  /** Name recorded on reviews; actions are disabled until it is set. */
+  reviewer: string
+  onThresholdChange: (threshold: number) => void
+  onCallsChange: (calls: CallData[]) => void
+}
+
+function formatConfidence(score?: number) {
+  return score === undefined ? '—' : `${Math.round(score * 100)}%`
+}
+
+/**
+ * Calls whose labels need a human look: low model confidence, fallback
+ * results, API errors and models that disagree. Accepting or correcting a call removes it from the
+ * queue and updates the statistics.
+ */
+export default function ReviewQueue({
+  calls,
+  taxonomy,
+  threshold,
+  reviewer,
+  onThresholdChange,
+  onCallsChange,
+}: ReviewQueueProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const queue = buildReviewQueue(calls, threshold)
+  const reviewed = calls.filter((call) => call.review)
+  const corrected = reviewed.filter((call) => call.review?.status === 'corrected')
+
+  const labelOptions = reviewLabelOptions(calls, taxonomy)
+
+  const updateCall = (updated: CallData) => {
+    onCallsChange(calls.map((call) => (call.id === updated.id ? updated : call)))
+    setEditingId(null)
+  }
+
+  const renderItem = ({ call, reasons, confidence }: ReviewItem) => {
+    const nothingToAccept = reasons.includes('api_error') || call.sentiment === 'parse_failed'
+    return (
+      <div key={call.id} className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="font-medium text-gray-800">{call.customer || call.phone || call.id}</span>
+              <span className="text-xs text-gray-500">{call.date}</span>
+              {reasons.map((reason) => (
+                <span
+                  key={reason}
+                  className={`px-2 py-0.5 text-xs rounded-full ${
+                    reason === 'low_confidence'
+                      ? 'bg-amber-100 text-amber-800'
+                      : reason === 'disagreement'
+                        ? 'bg-purple-100 text-purple-800'
+                        : 'bg-red-100 text-red-700'
+                  }`}
+                >
+                  {REVIEW_REASON_LABELS[reason]}
+                </span>
+              ))}
+              <span className="text-xs text-gray-500">Lowest confidence: {formatConfidence(confidence)}</span>
+            </div>
+            <div className="flex flex-wrap gap-2 my-2">
+              {call.categories.map((category) => (
+                <span key={category} className="px-2 py-1 bg-white border border-gray-200 text-xs text-gray-700 rounded-full">
+                  {category}{' '}
+                  <span className="text-gray-400">{formatConfidence(call.confidence?.categories[category])}</span>
+                </span>
+              ))}
+              <span className="px-2 py-1 bg-white border border-gray-200 text-xs text-gray-700 rounded-full">
+                {call.sentiment || 'neutral'}{' '}
+                <span className="text-gray-400">{formatConfidence(call.confidence?.sentiment)}</span>
+              </span>
+            </div>
+            {call.aiAnalysis && <p className="text-sm text-gray-600">{call.aiAnalysis}</p>}
+            {reasons.includes('disagreement') && call.ensemble && (
+              <p className="text-xs text-gray-500 mt-1">
+                Votes of {call.ensemble.models.length} models:{' '}
+                {Object.entries(call.ensemble.categoryVotes)
+                  .map(([label, votes]) => `${label} ${votes}`)
+                  .concat(Object.entries(call.ensemble.sentimentVotes).map(([s, votes]) => `${s} ${votes}`))
+                  .join(' · ')}
+              </p>
+            )}
+          </div>
+          {editingId !== call.id && (
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => updateCall(acceptReview(call, reviewer))}
+                disabled={nothingToAccept || !reviewer}
+                title={
+                  nothingToAccept
+                    ? 'There are no AI labels to accept'
+                    : !reviewer
+                      ? 'Enter your name to review calls'
+                      : undefined
+                }
+                className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-4 h-4" />
+                <span>Accept</span>
+              </button>
+              <button
+                onClick={() => setEditingId(call.id)}
+                disabled={!reviewer}
+                title={!reviewer ? 'Enter your name to review calls' : undefined}
+                className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Pencil className="w-4 h-4" />
+                <span>Correct</span>
+              </button>
+            </div>
+          )}
+        </div>
+        {editingId === call.id && (
+          <LabelEditor
+            call={call}
+            labelOptions={labelOptions}
+            onSave={(categories, sentiment) => updateCall(correctReview(call, categories, sentiment, reviewer))}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+            <ClipboardCheck className="w-5 h-5 mr-2 text-primary-600" />
+            Review Queue
+          </h3>
+          <p className="text-sm text-gray-600">
+            {queue.length} call(s) to review · {reviewed.length} reviewed ({corrected.length} corrected)
+          </p>
+        </div>
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          Confidence threshold
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={threshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+          />
+          <span className="w-10 text-right font-medium">{Math.round(threshold * 100)}%</span>
+        </label>
+      </div>
+
+      {queue.length > 0 ? (
+        <div className="space-y-3">{queue.map(renderItem)}</div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">No calls need review at this threshold</div>
+      )}
+    </div>
+  )
+}
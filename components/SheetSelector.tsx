@@ -0,0 +1,66 @@
+'use client'
+
+import { SheetSelection, SheetSummary, SkippedSheet } from '@/types'
+
+interface SheetSelectorProps {
+  sheets: SheetSummary[]
+  usedSheets: string[]
+  skippedSheets?: SkippedSheet[]
+  selection: SheetSelection
+  disabled?: boolean
+  onChange: (selection: SheetSelection) => void
+}
+
+/** Picks which sheets of a workbook to analyze, or merges every sheet with matching columns. */
+export default function SheetSelector({ sheets, usedSheets, skippedSheets = [], selection, disabled = false, onChange }: SheetSelectorProps) {
+  const toggleSheet = (name: string) => {
+    const next = usedSheets.includes(name)
+      ? usedSheets.filter((used) => used !== name)
+      : sheets.map((sheet) => sheet.name).filter((sheetName) => sheetName === name || usedSheets.includes(sheetName))
+    if (next.length > 0) {
+      onChange(next)
+    }
+  }
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-800">
+          Sheets
+          <span className="ml-2 font-normal text-gray-500">
+            {usedSheets.length} of {sheets.length} selected
+          </span>
+        </h3>
+        <button
+          type="button"
+          onClick={() => onChange(selection === 'matching' ? [] : 'matching')}
+          disabled={disabled}
+          className="text-sm text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {selection === 'matching' ? 'Pick sheets instead' : 'Merge sheets with matching columns'}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {sheets.map((sheet) => {
+          const skipped = skippedSheets.find((s) => s.name === sheet.name)
+          return (
+            <label key={sheet.name} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={usedSheets.includes(sheet.name)}
+                onChange={() => toggleSheet(sheet.name)}
+                disabled={disabled || selection === 'matching'}
+              />
+              {sheet.name}
+              <span className="text-xs text-gray-400">{sheet.rows} rows</span>
+              {skipped && <span className="text-xs text-amber-600">skipped: {skipped.reason}</span>}
+            </label>
+          )
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Calls from all selected sheets are analyzed in one run, each tagged with its sheet.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+/**
+ * Hierarchical category labels are written as paths, e.g.
+ * "Service > Oil Change > Pricing". Flat labels are single-level paths.
+ */
+
+export const CATEGORY_PATH_SEPARATOR = " > ";
+
+export function splitCategoryPath(label: string): string[] {
+  return label
+    .split(">")
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+export function isHierarchicalCategory(label: string): boolean {
+  return splitCategoryPath(label).length > 1;
+}
+
+/** The label and every group above it: ["Service", "Service > Oil Change", ...]. */
+export function categoryAncestry(label: string): string[] {
+  const parts = splitCategoryPath(label);
+  return parts.map((_, i) => parts.slice(0, i + 1).join(CATEGORY_PATH_SEPARATOR));
+}
+
+/** Last segment of a path, for display inside its parent group. */
+export function categoryLeaf(label: string): string {
+  const parts = splitCategoryPath(label);
+  return parts[parts.length - 1] || label;
+}
+
+export function categoryDepth(label: string): number {
+  return Math.max(splitCategoryPath(label).length - 1, 0);
+}
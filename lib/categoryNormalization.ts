@@ -0,0 +1,266 @@
+import { CallData, CategoryNormalization } from "@/types";
+import { categoryDepth } from "@/lib/categoryHierarchy";
+
+/**
+ * Merges near-duplicate free-form category labels ("Pricing Inquiry",
+ * "PRICING INQUIRIES", "Price inquiry") before statistics are calculated.
+ * Labels are compared after case/punctuation/plural normalization, then by
+ * TF-IDF cosine similarity of their stemmed words, with an edit-distance
+ * check for typos. Hierarchical labels are only compared with labels at the
+ * same depth. Runs locally; no model calls.
+ */
+
+export interface NormalizationOptions {
+  /** Minimum TF-IDF cosine similarity for two labels to be merged. */
+  similarityThreshold?: number;
+  /** Minimum edit-distance similarity (0-1) for typo-level matches. */
+  typoThreshold?: number;
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+const DEFAULT_TYPO_THRESHOLD = 0.88;
+
+/** Labels that carry meaning of their own and are never merged. */
+function isReservedLabel(label: string): boolean {
+  const upper = label.toUpperCase();
+  return upper === "OTHER" || upper.startsWith("UNCATEGORIZED");
+}
+
+function stem(word: string): string {
+  const suffixes = ["IES", "ING", "ED", "ES", "S", "E"];
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === "IES" ? `${base}Y` : base;
+    }
+  }
+  return word;
+}
+
+function tokenize(label: string): string[] {
+  return label
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter((word) => word && word !== "AND" && word !== "THE" && word !== "OF")
+    .map(stem);
+}
+
+/** Case-, punctuation- and plural-insensitive key for a label. */
+export function normalizeCategoryKey(label: string): string {
+  return tokenize(label).join(" ");
+}
+
+/** Levenshtein similarity between 0 (nothing in common) and 1 (equal). */
+export function editSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const maxLen = Math.max(a.length, b.length);
+  if (maxLen === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / maxLen;
+}
+
+type Vector = Map<string, number>;
+
+function tfidfVectors(documents: string[][]): Vector[] {
+  const documentFrequency = new Map<string, number>();
+  documents.forEach((tokens) => {
+    Array.from(new Set(tokens)).forEach((token) =>
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1)
+    );
+  });
+
+  return documents.map((tokens) => {
+    const vector: Vector = new Map();
+    tokens.forEach((token) => {
+      const idf =
+        Math.log((documents.length + 1) / ((documentFrequency.get(token) || 0) + 1)) + 1;
+      vector.set(token, (vector.get(token) || 0) + idf);
+    });
+    return vector;
+  });
+}
+
+function cosine(a: Vector, b: Vector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((weight, token) => {
+    normA += weight * weight;
+    dot += weight * (b.get(token) || 0);
+  });
+  b.forEach((weight) => {
+    normB += weight * weight;
+  });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Clusters the category labels used across `calls`. The canonical label of a
+ * cluster is its most frequent raw spelling.
+ */
+export function buildCategoryNormalization(
+  calls: CallData[],
+  options: NormalizationOptions = {}
+): CategoryNormalization {
+  const similarityThreshold =
+    options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const typoThreshold = options.typoThreshold ?? DEFAULT_TYPO_THRESHOLD;
+
+  const frequency = new Map<string, number>();
+  calls.forEach((call) =>
+    call.categories.forEach((label) =>
+      frequency.set(label, (frequency.get(label) || 0) + 1)
+    )
+  );
+
+  const mapping: Record<string, string> = {};
+  const labels = Array.from(frequency.keys()).filter((label) => {
+    if (isReservedLabel(label)) {
+      mapping[label] = label;
+      return false;
+    }
+    return true;
+  });
+
+  // Union-find over label indexes.
+  const parent = labels.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const tokens = labels.map(tokenize);
+  const keys = tokens.map((t) => t.join(" "));
+  const vectors = tfidfVectors(tokens);
+  const depths = labels.map(categoryDepth);
+
+  // Average commonness of a label's words across all labels; breaks frequency ties
+  // in favor of conventional spellings over typos.
+  const wordCounts = new Map<string, number>();
+  tokens.forEach((words) =>
+    words.forEach((word) => wordCounts.set(word, (wordCounts.get(word) || 0) + 1))
+  );
+  const commonness = new Map<string, number>();
+  labels.forEach((label, i) =>
+    commonness.set(
+      label,
+      tokens[i].reduce((sum, word) => sum + (wordCounts.get(word) || 0), 0) /
+        Math.max(tokens[i].length, 1)
+    )
+  );
+
+  for (let i = 0; i < labels.length; i++) {
+    for (let j = i + 1; j < labels.length; j++) {
+      if (depths[i] !== depths[j] || find(i) === find(j)) continue;
+      const similar =
+        keys[i] === keys[j] ||
+        cosine(vectors[i], vectors[j]) >= similarityThreshold ||
+        (Math.min(keys[i].length, keys[j].length) >= 6 &&
+          editSimilarity(keys[i], keys[j]) >= typoThreshold);
+      if (similar) {
+        union(i, j);
+      }
+    }
+  }
+
+  const clusters = new Map<number, string[]>();
+  labels.forEach((label, i) => {
+    const root = find(i);
+    clusters.set(root, (clusters.get(root) || []).concat(label));
+  });
+
+  const aliases: Record<string, string[]> = {};
+  Array.from(clusters.values()).forEach((members) => {
+    const canonical = members
+      .slice()
+      .sort(
+        (a, b) =>
+          (frequency.get(b) || 0) - (frequency.get(a) || 0) ||
+          (commonness.get(b) || 0) - (commonness.get(a) || 0) ||
+          Number(b === b.toUpperCase()) - Number(a === a.toUpperCase()) ||
+          a.length - b.length ||
+          a.localeCompare(b)
+      )[0];
+    members.forEach((label) => {
+      mapping[label] = canonical;
+    });
+    if (members.length > 1) {
+      aliases[canonical] = members.filter((label) => label !== canonical);
+    }
+  });
+
+  return { mapping, aliases };
+}
+
+/**
+ * Rewrites each call's categories (and their confidence scores) to canonical
+ * labels. The model's original labels are kept in `rawCategories` for the raw view.
+ */
+export function applyCategoryNormalization(
+  calls: CallData[],
+  normalization: CategoryNormalization
+): CallData[] {
+  return calls.map((call) => {
+    const rawCategories = call.rawCategories || call.categories;
+    const categories = rawCategories
+      .map((label) => normalization.mapping[label] || label)
+      .filter((label, i, all) => all.indexOf(label) === i);
+    const remap = (byLabel: Record<string, number>) => {
+      const merged: Record<string, number> = {};
+      Object.entries(byLabel).forEach(([label, value]) => {
+        const canonical = normalization.mapping[label] || label;
+        merged[canonical] = Math.max(merged[canonical] ?? 0, value);
+      });
+      return merged;
+    };
+    return {
+      ...call,
+      categories,
+      rawCategories,
+      ...(call.confidence
+        ? {
+            confidence: {
+              ...call.confidence,
+              categories: remap(call.confidence.categories),
+            },
+          }
+        : {}),
+      ...(call.ensemble
+        ? {
+            ensemble: {
+              ...call.ensemble,
+              categoryVotes: remap(call.ensemble.categoryVotes),
+            },
+          }
+        : {}),
+    };
+  });
+}
+
+/** Calls with the model's original labels restored, for the raw dashboard view. */
+export function withRawCategories(calls: CallData[]): CallData[] {
+  return calls.map((call) =>
+    call.rawCategories ? { ...call, categories: call.rawCategories } : call
+  );
+}
@@ -0,0 +1,150 @@
+import { ModelConfig } from "@/types";
+import type { LogCallback } from "@/lib/gemini";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerPolicy {
+  /** Consecutive failed requests that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before letting one probe request through. */
+  probeIntervalMs: number;
+}
+
+/**
+ * Network errors and 5xx responses mean the provider is down. Rate limits and
+ * bad requests neither count as failures nor as a recovery.
+ */
+export function isOutage(error: any): boolean {
+  return !error?.circuitOpen && (error?.status === undefined || error.status >= 500);
+}
+
+/**
+ * Stops sending requests to a provider/model that keeps failing. After
+ * `failureThreshold` consecutive outages the circuit opens and requests fail
+ * at once with a 503 (so callers can switch to a fallback model). Every
+ * `probeIntervalMs` one request is let through as a probe; its success closes
+ * the circuit again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(readonly name: string, readonly policy: CircuitBreakerPolicy) {}
+
+  get currentState(): CircuitState {
+    return this.state;
+  }
+
+  /** Throws while the circuit is open; lets a single probe through once the interval has passed. */
+  beforeRequest(logCallback?: LogCallback) {
+    if (this.state === "closed") return;
+
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.policy.probeIntervalMs
+    ) {
+      this.transition(
+        "half_open",
+        `🔌 Circuit for ${this.name} is half-open: sending a probe request`,
+        "info",
+        logCallback
+      );
+    }
+    if (this.state === "half_open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return;
+    }
+
+    const retryInSeconds = Math.max(
+      0,
+      Math.ceil((this.openedAt + this.policy.probeIntervalMs - Date.now()) / 1000)
+    );
+    const error: any = new Error(
+      `Circuit open for ${this.name} after ${this.failures} consecutive failures; next probe in ${retryInSeconds}s`
+    );
+    error.status = 503;
+    error.circuitOpen = true;
+    throw error;
+  }
+
+  recordSuccess(logCallback?: LogCallback) {
+    this.failures = 0;
+    this.probeInFlight = false;
+    if (this.state !== "closed") {
+      this.transition(
+        "closed",
+        `✅ Circuit for ${this.name} closed: the provider is responding again`,
+        "success",
+        logCallback
+      );
+    }
+  }
+
+  /**
+   * Ends a request that neither proves nor disproves an outage (a rate limit,
+   * a bad request, or one that was never sent): frees the probe slot for the
+   * next request and leaves the failure count and state as they were.
+   */
+  releaseProbe() {
+    this.probeInFlight = false;
+  }
+
+  recordFailure(logCallback?: LogCallback) {
+    this.failures++;
+    this.probeInFlight = false;
+    if (this.state === "half_open") {
+      this.openedAt = Date.now();
+      this.transition(
+        "open",
+        `⛔ Probe to ${this.name} failed; circuit stays open for another ${
+          this.policy.probeIntervalMs / 1000
+        }s`,
+        "warning",
+        logCallback
+      );
+    } else if (
+      this.state === "closed" &&
+      this.failures >= this.policy.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+      this.transition(
+        "open",
+        `⛔ Circuit for ${this.name} opened after ${this.failures} consecutive failures; failing fast and probing every ${
+          this.policy.probeIntervalMs / 1000
+        }s`,
+        "error",
+        logCallback
+      );
+    }
+  }
+
+  private transition(
+    state: CircuitState,
+    message: string,
+    type: "info" | "success" | "warning" | "error",
+    logCallback?: LogCallback
+  ) {
+    this.state = state;
+    console.log(message);
+    logCallback?.(message, type);
+  }
+}
+
+// Like rate limiters, breakers are shared by every request to the same
+// provider/model: an outage seen by one analysis applies to all of them.
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(
+  config: ModelConfig,
+  policy: CircuitBreakerPolicy
+): CircuitBreaker {
+  const key = `${config.provider}/${config.model}`;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, policy);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
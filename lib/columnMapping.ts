@@ -0,0 +1,227 @@
+import { ColumnMapping, MappedCallField } from "@/types";
+import { editSimilarity, normalizeCategoryKey } from "@/lib/categoryNormalization";
+
+/**
+ * Maps the columns of an uploaded file to CallData fields. Headers are
+ * matched against known aliases for each field, so exports from other
+ * systems work without renaming columns. Safe to import from client
+ * components.
+ */
+
+export interface ColumnField {
+  field: MappedCallField;
+  label: string;
+  required: boolean;
+  /** Known header names, most specific first. The first one is the standard header. */
+  aliases: string[];
+}
+
+export const COLUMN_FIELDS: ColumnField[] = [
+  {
+    field: "transcript",
+    label: "Transcript",
+    required: true,
+    aliases: ["Transcript", "summary_points", "transcription", "call transcript", "conversation"],
+  },
+  {
+    field: "phone",
+    label: "Phone number",
+    required: true,
+    aliases: ["Originating Number", "phone number", "phone", "caller number", "caller id", "from number", "ani"],
+  },
+  {
+    field: "customer",
+    label: "Customer name",
+    required: false,
+    aliases: ["customer_name", "customer", "caller name", "contact name"],
+  },
+  {
+    field: "date",
+    label: "Date/time",
+    required: false,
+    aliases: ["Start Timestamp", "timestamp", "start time", "call date", "date", "datetime", "created at"],
+  },
+  {
+    field: "duration",
+    label: "Duration (seconds)",
+    required: false,
+    aliases: ["Call duration", "duration", "call length", "talk time"],
+  },
+  {
+    field: "callReason",
+    label: "Call reason",
+    required: false,
+    aliases: ["call_reason", "reason", "call purpose", "intent"],
+  },
+  {
+    field: "issuesDiscussed",
+    label: "Issues discussed",
+    required: false,
+    aliases: ["issues_discussed", "issues", "topics"],
+  },
+  {
+    field: "sentiment",
+    label: "Sentiment",
+    required: false,
+    aliases: ["customer_sentiment", "sentiment"],
+  },
+  {
+    field: "outcome",
+    label: "Outcome",
+    required: false,
+    aliases: ["outcome_status", "outcome", "disposition", "call result"],
+  },
+];
+
+/** Minimum header similarity for a column to be suggested for a field. */
+const SUGGESTION_THRESHOLD = 0.8;
+/** Score for a header that contains every word of an alias, e.g. "Caller Phone Number". */
+const CONTAINED_ALIAS_SCORE = 0.85;
+
+function headerSimilarity(header: string, alias: string): number {
+  const headerKey = normalizeCategoryKey(header);
+  const aliasKey = normalizeCategoryKey(alias);
+  if (!headerKey || !aliasKey) return 0;
+  if (headerKey.replace(/ /g, "") === aliasKey.replace(/ /g, "")) return 1;
+
+  const headerWords = headerKey.split(" ");
+  const aliasWords = aliasKey.split(" ");
+  const shared = aliasWords.filter((word) => headerWords.includes(word)).length;
+  const contained = shared === aliasWords.length ? CONTAINED_ALIAS_SCORE : 0;
+  const dice = (2 * shared) / (headerWords.length + aliasWords.length);
+  return Math.max(
+    contained,
+    dice,
+    editSimilarity(headerKey.replace(/ /g, ""), aliasKey.replace(/ /g, ""))
+  );
+}
+
+/** Every column name that appears in any row, in first-seen order. */
+export function collectColumns(rows: Array<Record<string, unknown>>): string[] {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach((row) => {
+    Object.keys(row).forEach((column) => {
+      if (!seen.has(column)) {
+        seen.add(column);
+        columns.push(column);
+      }
+    });
+  });
+  return columns;
+}
+
+/**
+ * Suggests a column for each field by fuzzy header matching. The best
+ * matches are assigned first, and each column is used for at most one field.
+ */
+export function suggestColumnMapping(columns: string[]): ColumnMapping {
+  const candidates: Array<{ field: MappedCallField; column: string; score: number; rank: number }> = [];
+  COLUMN_FIELDS.forEach(({ field, aliases }, fieldIndex) => {
+    columns.forEach((column) => {
+      aliases.forEach((alias, aliasIndex) => {
+        const score = headerSimilarity(column, alias);
+        if (score >= SUGGESTION_THRESHOLD) {
+          candidates.push({ field, column, score, rank: aliasIndex * COLUMN_FIELDS.length + fieldIndex });
+        }
+      });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || a.rank - b.rank);
+
+  const mapping: ColumnMapping = {};
+  const usedColumns = new Set<string>();
+  candidates.forEach(({ field, column }) => {
+    if (!mapping[field] && !usedColumns.has(column)) {
+      mapping[field] = column;
+      usedColumns.add(column);
+    }
+  });
+  return mapping;
+}
+
+/**
+ * For each mapped field, the other columns whose headers are also names for
+ * it, best match first, e.g. "summary_points" next to a mapped "Transcript".
+ * A row whose mapped cell is blank reads the field from these instead.
+ * Columns mapped to any field are never fallbacks.
+ */
+export function fallbackColumns(
+  mapping: ColumnMapping,
+  columns: string[]
+): Partial<Record<MappedCallField, string[]>> {
+  const mappedColumns = Object.values(mapping);
+  const fallbacks: Partial<Record<MappedCallField, string[]>> = {};
+  COLUMN_FIELDS.forEach(({ field, aliases }) => {
+    if (!mapping[field]) return;
+    const scored = columns
+      .filter((column) => !mappedColumns.includes(column))
+      .map((column) => ({
+        column,
+        score: Math.max(...aliases.map((alias) => headerSimilarity(column, alias))),
+      }))
+      .filter(({ score }) => score >= SUGGESTION_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+    if (scored.length > 0) {
+      fallbacks[field] = scored.map(({ column }) => column);
+    }
+  });
+  return fallbacks;
+}
+
+/** One-line summary of a mapping for logs, e.g. `Transcript ← "Notes", Phone number ← "From"`. */
+export function describeColumnMapping(mapping: ColumnMapping): string {
+  const mapped = COLUMN_FIELDS.filter(({ field }) => mapping[field]).map(
+    ({ field, label }) => `${label} ← "${mapping[field]}"`
+  );
+  return mapped.length > 0 ? mapped.join(", ") : "no columns mapped";
+}
+
+/** Lists what is wrong with a mapping for the given columns; empty when it is usable. */
+export function validateColumnMapping(mapping: ColumnMapping, columns: string[]): string[] {
+  const errors: string[] = [];
+  COLUMN_FIELDS.forEach(({ field, label, required, aliases }) => {
+    const column = mapping[field];
+    if (!column) {
+      if (required) {
+        errors.push(`No column mapped to ${label} (e.g. "${aliases[0]}")`);
+      }
+    } else if (!columns.includes(column)) {
+      errors.push(`Column "${column}" mapped to ${label} is not in the file`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Parses a JSON object of field names to column names, as sent in the
+ * `columnMapping` form field. Empty column names leave the field unmapped.
+ */
+export function parseColumnMapping(input: string): ColumnMapping {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(input);
+  } catch (error: any) {
+    throw new Error(`Column mapping is not valid JSON: ${error.message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Column mapping must be a JSON object of field names to column names");
+  }
+
+  const mapping: ColumnMapping = {};
+  Object.keys(parsed).forEach((key) => {
+    const known = COLUMN_FIELDS.find(({ field }) => field === key);
+    if (!known) {
+      throw new Error(
+        `Unknown field "${key}". Available fields: ${COLUMN_FIELDS.map(({ field }) => field).join(", ")}`
+      );
+    }
+    if (typeof parsed[key] !== "string") {
+      throw new Error(`Field "${key}" must be mapped to a column name`);
+    }
+    if (parsed[key].trim()) {
+      mapping[known.field] = parsed[key];
+    }
+  });
+  return mapping;
+}
@@ -0,0 +1,126 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ColumnMapping, ColumnMappingPreset } from "@/types";
+
+/**
+ * Saved column mappings, one per source system, kept in a single JSON file so
+ * the next export from the same system maps in one click. They are user data,
+ * so they live outside the disposable `.cache` directory.
+ */
+
+const PRESETS_FILE =
+  process.env.COLUMN_PRESETS_FILE ||
+  path.join(process.cwd(), "data", "column-presets.json");
+
+/** Where presets were stored before; read until the first save moves them. */
+const LEGACY_PRESETS_FILE = process.env.COLUMN_PRESETS_FILE
+  ? null
+  : path.join(process.cwd(), ".cache", "column-presets.json");
+
+const MAX_PRESET_NAME_LENGTH = 80;
+
+/**
+ * Null when the file does not exist. Any other problem throws, so a damaged
+ * file is never taken for an empty one and overwritten by the next save.
+ */
+async function readPresetsFile(file: string): Promise<ColumnMappingPreset[] | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null;
+    throw new Error(`Could not read column presets from ${file}: ${error.message}`);
+  }
+
+  let presets: unknown;
+  try {
+    presets = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(
+      `Column presets file ${file} is not valid JSON (${error.message}); fix or remove it before saving presets`
+    );
+  }
+  if (!Array.isArray(presets)) {
+    throw new Error(
+      `Column presets file ${file} does not contain a list of presets; fix or remove it before saving presets`
+    );
+  }
+  return presets;
+}
+
+export async function listColumnPresets(): Promise<ColumnMappingPreset[]> {
+  const presets = await readPresetsFile(PRESETS_FILE);
+  if (presets === null && LEGACY_PRESETS_FILE) {
+    return (await readPresetsFile(LEGACY_PRESETS_FILE)) || [];
+  }
+  return presets || [];
+}
+
+// Saves and deletes are read-modify-write; running them one at a time keeps
+// concurrent requests from overwriting each other's changes.
+let presetUpdates: Promise<unknown> = Promise.resolve();
+
+function updatePresets<T>(update: () => Promise<T>): Promise<T> {
+  const result = presetUpdates.then(update);
+  presetUpdates = result.catch(() => undefined);
+  return result;
+}
+
+async function writeColumnPresets(presets: ColumnMappingPreset[]) {
+  await fs.mkdir(path.dirname(PRESETS_FILE), { recursive: true });
+  const tmpFile = `${PRESETS_FILE}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(presets, null, 2));
+  await fs.rename(tmpFile, PRESETS_FILE);
+}
+
+function samePresetName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Returns the trimmed preset name; throws with a user-facing message when it is unusable. */
+export function validatePresetName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Preset name is required");
+  }
+  if (trimmed.length > MAX_PRESET_NAME_LENGTH) {
+    throw new Error(`Preset name must be at most ${MAX_PRESET_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/** Saves a preset, replacing any preset with the same name (ignoring case). */
+export async function saveColumnPreset(
+  name: string,
+  mapping: ColumnMapping
+): Promise<ColumnMappingPreset> {
+  const trimmed = validatePresetName(name);
+
+  const preset: ColumnMappingPreset = {
+    name: trimmed,
+    mapping,
+    updatedAt: new Date().toISOString(),
+  };
+  return updatePresets(async () => {
+    const presets = (await listColumnPresets()).filter(
+      (existing) => !samePresetName(existing.name, trimmed)
+    );
+    await writeColumnPresets(
+      [...presets, preset].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return preset;
+  });
+}
+
+/** Deletes a preset and returns whether it existed. */
+export async function deleteColumnPreset(name: string): Promise<boolean> {
+  return updatePresets(async () => {
+    const presets = await listColumnPresets();
+    const remaining = presets.filter((preset) => !samePresetName(preset.name, name));
+    if (remaining.length === presets.length) {
+      return false;
+    }
+    await writeColumnPresets(remaining);
+    return true;
+  });
+}
@@ -0,0 +1,171 @@
+import { CallData, EnsembleOutcome } from "@/types";
+import type { CategorizationResult } from "@/lib/gemini";
+import { normalizeCategoryKey } from "@/lib/categoryNormalization";
+
+/**
+ * Combines the results of several models for the same call (consensus mode)
+ * and measures how often they agree. Categories are kept when a majority of
+ * the models proposed them and sentiment goes to the majority; without a
+ * majority the primary (first) model's answer is used. Safe to import from
+ * client components.
+ */
+
+export interface EnsembleMember {
+  /** "provider/model" */
+  model: string;
+  result: CategorizationResult;
+}
+
+/** Extra models beyond the primary; more only adds cost without changing most votes. */
+export const MAX_ENSEMBLE_MODELS = 2;
+
+/** True when at least two models answered and they did not all give the same labels. */
+export function hasModelDisagreement(call: Pick<CallData, "ensemble">): boolean {
+  return (
+    !!call.ensemble && call.ensemble.models.length >= 2 && !call.ensemble.unanimous
+  );
+}
+
+/**
+ * Per category label, the share of consensus calls where any model proposed
+ * it in which every model did.
+ */
+export function calculateCategoryAgreement(
+  calls: CallData[]
+): Record<string, number> {
+  const proposed = new Map<string, { calls: number; unanimous: number }>();
+  calls.forEach(({ ensemble }) => {
+    if (!ensemble || ensemble.models.length < 2) return;
+    Object.keys(ensemble.categoryVotes).forEach((label) => {
+      const entry = proposed.get(label) || { calls: 0, unanimous: 0 };
+      entry.calls++;
+      if (ensemble.categoryVotes[label] === ensemble.models.length) entry.unanimous++;
+      proposed.set(label, entry);
+    });
+  });
+
+  const agreement: Record<string, number> = {};
+  proposed.forEach((entry, label) => {
+    agreement[label] = entry.unanimous / entry.calls;
+  });
+  return agreement;
+}
+
+/** Most common spelling of a label across models; earlier models win ties. */
+function preferredSpelling(spellings: string[]): string {
+  const counts = new Map<string, number>();
+  spellings.forEach((s) => counts.set(s, (counts.get(s) || 0) + 1));
+  return spellings.reduce((best, s) =>
+    (counts.get(s) || 0) > (counts.get(best) || 0) ? s : best
+  );
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : undefined;
+}
+
+export function combineEnsembleResults(
+  members: EnsembleMember[],
+  failedModels: string[] = []
+): CategorizationResult & { ensemble: EnsembleOutcome } {
+  const [primary] = members;
+  const majority = members.length / 2;
+
+  const byKey = new Map<
+    string,
+    { spellings: string[]; voters: Set<number>; confidences: number[] }
+  >();
+  members.forEach(({ result }, m) => {
+    result.categories.forEach((label) => {
+      const key = normalizeCategoryKey(label) || label;
+      const entry = byKey.get(key) || {
+        spellings: [],
+        voters: new Set<number>(),
+        confidences: [],
+      };
+      entry.spellings.push(label);
+      entry.voters.add(m);
+      const confidence = result.confidence?.categories[label];
+      if (typeof confidence === "number") entry.confidences.push(confidence);
+      byKey.set(key, entry);
+    });
+  });
+
+  const categoryVotes: Record<string, number> = {};
+  const labelFor = new Map<string, string>();
+  byKey.forEach((entry, key) => {
+    const label = preferredSpelling(entry.spellings);
+    labelFor.set(key, label);
+    categoryVotes[label] = entry.voters.size;
+  });
+
+  let winningKeys = Array.from(byKey.keys()).filter(
+    (key) => byKey.get(key)!.voters.size > majority
+  );
+  if (winningKeys.length === 0) {
+    winningKeys = primary.result.categories.map(
+      (label) => normalizeCategoryKey(label) || label
+    );
+  }
+  const categories = winningKeys
+    .map((key) => labelFor.get(key)!)
+    .filter((label, i, all) => all.indexOf(label) === i);
+
+  const sentimentVotes: Record<string, number> = {};
+  members.forEach(({ result }) => {
+    sentimentVotes[result.sentiment] = (sentimentVotes[result.sentiment] || 0) + 1;
+  });
+  const sentiment =
+    (Object.keys(sentimentVotes).find(
+      (s) => sentimentVotes[s] > majority
+    ) as CategorizationResult["sentiment"] | undefined) || primary.result.sentiment;
+
+  // Reported confidences are scaled by the share of models that agree.
+  const categoryConfidence: Record<string, number> = {};
+  winningKeys.forEach((key) => {
+    const entry = byKey.get(key)!;
+    const share = entry.voters.size / members.length;
+    categoryConfidence[labelFor.get(key)!] = (average(entry.confidences) ?? 1) * share;
+  });
+  const agreeing = members.filter((m) => m.result.sentiment === sentiment);
+  const sentimentConfidence =
+    (average(
+      agreeing
+        .map((m) => m.result.confidence?.sentiment)
+        .filter((c): c is number => typeof c === "number")
+    ) ?? 1) *
+    (agreeing.length / members.length);
+
+  const keySets = members.map(({ result }) =>
+    result.categories.map((label) => normalizeCategoryKey(label) || label).sort().join("|")
+  );
+  const unanimous =
+    members.length >= 2 &&
+    keySets.every((set) => set === keySets[0]) &&
+    Object.keys(sentimentVotes).length === 1;
+
+  const otherSuggestions = members
+    .flatMap(({ result }) => result.otherSuggestions || [])
+    .filter((s, i, all) => all.indexOf(s) === i);
+
+  return {
+    categories,
+    sentiment,
+    summary: primary.result.summary,
+    ...(otherSuggestions.length > 0 ? { otherSuggestions } : {}),
+    coverage: primary.result.coverage,
+    confidence: { categories: categoryConfidence, sentiment: sentimentConfidence },
+    ...(failedModels.length > 0 || members.some(({ result }) => result.fallback)
+      ? { fallback: true }
+      : {}),
+    ensemble: {
+      models: members.map(({ model }) => model),
+      ...(failedModels.length > 0 ? { failedModels } : {}),
+      categoryVotes,
+      sentimentVotes,
+      unanimous,
+    },
+  };
+}
@@ -0,0 +1,441 @@
+import { RawCallData, validateRows } from "@/lib/excelProcessor";
+import {
+  AnalysisOptions,
+  CategorizationResult,
+  CompletionUsage,
+  batchCategorizeCallsWithProgress,
+  toTokenUsage,
+} from "@/lib/gemini";
+import { formatCost } from "@/lib/usage";
+import { TokenUsage } from "@/types";
+import { normalizeCategoryKey } from "@/lib/categoryNormalization";
+import { categoryLeaf, isHierarchicalCategory } from "@/lib/categoryHierarchy";
+
+/**
+ * Scores the categorizer against a labeled golden set: a call spreadsheet with
+ * expected categories and sentiment per row. Runs the normal categorization
+ * pipeline with the cache bypassed so latency and token counts are real.
+ */
+
+const EXPECTED_CATEGORY_COLUMNS = ["expected_categories", "Expected Categories"];
+const EXPECTED_SENTIMENT_COLUMNS = ["expected_sentiment", "Expected Sentiment"];
+
+export const EVALUATION_SENTIMENTS = ["positive", "neutral", "negative"] as const;
+/**
+ * Predicted sentiments also include the model failing to produce one, and
+ * "invalid" for any other value it returned.
+ */
+const INVALID_SENTIMENT = "invalid";
+const PREDICTED_SENTIMENTS = [...EVALUATION_SENTIMENTS, "parse_failed", INVALID_SENTIMENT];
+
+export interface GoldenCall {
+  id: string;
+  transcript: string;
+  callReason?: string;
+  issuesDiscussed?: string;
+  expectedCategories: string[];
+  expectedSentiment?: string;
+}
+
+export interface CategoryScore {
+  category: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Number of calls labeled with the category in the golden set. */
+  support: number;
+}
+
+export interface EvaluationCallResult {
+  id: string;
+  expectedCategories: string[];
+  predictedCategories: string[];
+  expectedSentiment?: string;
+  predictedSentiment: string;
+  durationMs?: number;
+}
+
+export interface EvaluationResult {
+  model: string;
+  totalCalls: number;
+  categories: CategoryScore[];
+  micro: { precision: number; recall: number; f1: number };
+  macro: { precision: number; recall: number; f1: number };
+  /** Calls whose predicted categories match the expected set exactly. */
+  exactMatchRate: number;
+  sentiment: {
+    labels: string[];
+    /** Rows are expected sentiments, columns predicted (including parse_failed and invalid). */
+    predictedLabels: string[];
+    matrix: number[][];
+    accuracy: number;
+    evaluatedCalls: number;
+  };
+  latency: {
+    totalMs: number;
+    meanMs: number;
+    p50Ms: number;
+    p95Ms: number;
+    maxMs: number;
+  };
+  usage: TokenUsage;
+  failedCalls: number;
+  calls: EvaluationCallResult[];
+  timestamp: string;
+}
+
+function readColumn(row: RawCallData, names: string[]): string {
+  for (const name of names) {
+    if (row[name] !== undefined && row[name] !== null) {
+      return String(row[name]).trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * Reads the golden set. Expected categories are separated by semicolons (or
+ * commas when no semicolon is present); expected sentiment is optional.
+ * Rows without expected categories are skipped, since every prediction on
+ * them would count as a false positive, and so are rows that fail row
+ * validation (an empty transcript). Throws when no usable row is left.
+ */
+export function parseGoldenSet(rows: RawCallData[]): GoldenCall[] {
+  if (rows.length === 0) {
+    throw new Error("The golden set is empty");
+  }
+  if (!rows.some((row) => readColumn(row, EXPECTED_CATEGORY_COLUMNS))) {
+    throw new Error(
+      `The golden set needs an "${EXPECTED_CATEGORY_COLUMNS[0]}" column with the expected categories of each call`
+    );
+  }
+
+  const { calls, report } = validateRows(rows);
+  // Without sheets, rejected row numbers are positions in `rows`.
+  const rejected = new Set(report.rejectedRows.map((row) => row.rowNumber - 1));
+  const golden: GoldenCall[] = [];
+  const unlabeled: string[] = [];
+  const invalid: string[] = [];
+  let next = 0;
+  rows.forEach((row, i) => {
+    if (rejected.has(i)) {
+      invalid.push(`call-${i + 1}`);
+      return;
+    }
+    const call = calls[next++];
+    const categoryText = readColumn(row, EXPECTED_CATEGORY_COLUMNS);
+    const sentiment = readColumn(row, EXPECTED_SENTIMENT_COLUMNS).toLowerCase();
+    const expectedCategories = categoryText
+      .split(categoryText.includes(";") ? ";" : ",")
+      .map((label) => label.trim())
+      .filter(Boolean);
+    if (expectedCategories.length === 0) {
+      unlabeled.push(call.id);
+      return;
+    }
+    golden.push({
+      id: call.id,
+      transcript: call.transcript,
+      callReason: call.callReason,
+      issuesDiscussed: call.issuesDiscussed,
+      expectedCategories,
+      expectedSentiment: sentiment || undefined,
+    });
+  });
+
+  if (unlabeled.length > 0) {
+    console.log(
+      `⏭️  Skipping ${unlabeled.length} golden set row(s) without expected categories: ${unlabeled.join(", ")}`
+    );
+  }
+  if (invalid.length > 0) {
+    console.log(
+      `⏭️  Skipping ${invalid.length} golden set row(s) without a transcript: ${invalid.join(", ")}`
+    );
+  }
+  if (golden.length === 0) {
+    throw new Error("The golden set has no rows with both a transcript and expected categories");
+  }
+  return golden;
+}
+
+/**
+ * Predicted labels match expected ones after case, punctuation and plural
+ * normalization. A flat expected label also matches the leaf of a nested
+ * prediction, so "Pricing" matches "Service > Pricing".
+ */
+function predictionKeys(predicted: string[], expected: string[]): string[] {
+  const expectedFlat = expected.every((label) => !isHierarchicalCategory(label));
+  return predicted.map((label) =>
+    normalizeCategoryKey(
+      expectedFlat && isHierarchicalCategory(label) ? categoryLeaf(label) : label
+    )
+  );
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function f1Score(precision: number, recall: number): number {
+  return precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/** Scores predictions against the golden labels. */
+export function scoreEvaluation(
+  golden: GoldenCall[],
+  results: CategorizationResult[],
+  usage: CompletionUsage[],
+  totalMs: number,
+  model: string
+): EvaluationResult {
+  const counts = new Map<string, { label: string; tp: number; fp: number; fn: number; support: number }>();
+  const entryFor = (key: string, label: string) => {
+    if (!counts.has(key)) {
+      counts.set(key, { label, tp: 0, fp: 0, fn: 0, support: 0 });
+    }
+    return counts.get(key)!;
+  };
+
+  let exactMatches = 0;
+  const labels = [...EVALUATION_SENTIMENTS] as string[];
+  const matrix = labels.map(() => PREDICTED_SENTIMENTS.map(() => 0));
+  let sentimentCorrect = 0;
+  let sentimentEvaluated = 0;
+
+  const calls: EvaluationCallResult[] = golden.map((call, i) => {
+    const result = results[i];
+    const expectedKeys = call.expectedCategories.map(normalizeCategoryKey);
+    const predictedKeys = predictionKeys(result.categories, call.expectedCategories);
+
+    call.expectedCategories.forEach((label, j) => {
+      const entry = entryFor(expectedKeys[j], label);
+      entry.support++;
+      if (predictedKeys.includes(expectedKeys[j])) entry.tp++;
+      else entry.fn++;
+    });
+    result.categories.forEach((label, j) => {
+      if (!expectedKeys.includes(predictedKeys[j])) {
+        entryFor(predictedKeys[j], label).fp++;
+      }
+    });
+    if (
+      expectedKeys.length === predictedKeys.length &&
+      expectedKeys.every((key) => predictedKeys.includes(key))
+    ) {
+      exactMatches++;
+    }
+
+    const expectedRow = call.expectedSentiment ? labels.indexOf(call.expectedSentiment) : -1;
+    if (expectedRow >= 0) {
+      const predictedColumn = PREDICTED_SENTIMENTS.indexOf(result.sentiment);
+      matrix[expectedRow][
+        predictedColumn >= 0 ? predictedColumn : PREDICTED_SENTIMENTS.indexOf(INVALID_SENTIMENT)
+      ]++;
+      sentimentEvaluated++;
+      if (result.sentiment === call.expectedSentiment) sentimentCorrect++;
+    }
+
+    return {
+      id: call.id,
+      expectedCategories: call.expectedCategories,
+      predictedCategories: result.categories,
+      expectedSentiment: call.expectedSentiment,
+      predictedSentiment: result.sentiment,
+      durationMs: result.durationMs,
+    };
+  });
+
+  const categories: CategoryScore[] = Array.from(counts.values())
+    .map((entry) => {
+      const precision = ratio(entry.tp, entry.tp + entry.fp);
+      const recall = ratio(entry.tp, entry.tp + entry.fn);
+      return {
+        category: entry.label,
+        truePositives: entry.tp,
+        falsePositives: entry.fp,
+        falseNegatives: entry.fn,
+        precision,
+        recall,
+        f1: f1Score(precision, recall),
+        support: entry.support,
+      };
+    })
+    .sort((a, b) => b.support - a.support || b.falsePositives - a.falsePositives);
+
+  const totals = categories.reduce(
+    (sum, c) => ({
+      tp: sum.tp + c.truePositives,
+      fp: sum.fp + c.falsePositives,
+      fn: sum.fn + c.falseNegatives,
+    }),
+    { tp: 0, fp: 0, fn: 0 }
+  );
+  const microPrecision = ratio(totals.tp, totals.tp + totals.fp);
+  const microRecall = ratio(totals.tp, totals.tp + totals.fn);
+  // Macro averages cover the golden set's categories; spurious labels only lower micro precision.
+  const labeled = categories.filter((c) => c.support > 0);
+  const macroPrecision = ratio(labeled.reduce((sum, c) => sum + c.precision, 0), labeled.length);
+  const macroRecall = ratio(labeled.reduce((sum, c) => sum + c.recall, 0), labeled.length);
+
+  const durations = results
+    .map((r) => r.durationMs)
+    .filter((ms): ms is number => typeof ms === "number")
+    .sort((a, b) => a - b);
+
+  return {
+    model,
+    totalCalls: golden.length,
+    categories,
+    micro: {
+      precision: microPrecision,
+      recall: microRecall,
+      f1: f1Score(microPrecision, microRecall),
+    },
+    macro: {
+      precision: macroPrecision,
+      recall: macroRecall,
+      f1: ratio(labeled.reduce((sum, c) => sum + c.f1, 0), labeled.length),
+    },
+    exactMatchRate: ratio(exactMatches, golden.length),
+    sentiment: {
+      labels,
+      predictedLabels: PREDICTED_SENTIMENTS,
+      matrix,
+      accuracy: ratio(sentimentCorrect, sentimentEvaluated),
+      evaluatedCalls: sentimentEvaluated,
+    },
+    latency: {
+      totalMs,
+      meanMs: ratio(durations.reduce((sum, ms) => sum + ms, 0), durations.length),
+      p50Ms: percentile(durations, 50),
+      p95Ms: percentile(durations, 95),
+      maxMs: durations[durations.length - 1] || 0,
+    },
+    usage: toTokenUsage(usage),
+    failedCalls: results.filter(
+      (r) => r.sentiment === "parse_failed" || r.categories.some((c) => c.startsWith("UNCATEGORIZED"))
+    ).length,
+    calls,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Runs the categorizer over the golden set and scores the output. */
+export async function runEvaluation(
+  golden: GoldenCall[],
+  options: Omit<AnalysisOptions, "cacheMode" | "onUsage">
+): Promise<EvaluationResult> {
+  const { modelConfig, logCallback } = options;
+  const startMsg = `🧪 Evaluating ${modelConfig.provider}/${modelConfig.model} on ${golden.length} labeled calls`;
+  console.log(startMsg);
+  logCallback?.(startMsg, "info");
+
+  const usage: CompletionUsage[] = [];
+  const startTime = Date.now();
+  const results = await batchCategorizeCallsWithProgress(golden, {
+    ...options,
+    cacheMode: "bypass",
+    onUsage: (entry) => usage.push(entry),
+  });
+
+  const evaluation = scoreEvaluation(
+    golden,
+    results,
+    usage,
+    Date.now() - startTime,
+    `${modelConfig.provider}/${modelConfig.model}`
+  );
+
+  const doneMsg = `✅ Evaluation complete: micro F1 ${(evaluation.micro.f1 * 100).toFixed(1)}%, sentiment accuracy ${(
+    evaluation.sentiment.accuracy * 100
+  ).toFixed(1)}%`;
+  console.log(doneMsg);
+  logCallback?.(doneMsg, "success");
+
+  return evaluation;
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/** Plain-text rendering of an evaluation, for the terminal or a file. */
+export function formatEvaluationReport(evaluation: EvaluationResult): string {
+  const lines: string[] = [];
+
+  lines.push("=".repeat(100));
+  lines.push(`CATEGORIZER EVALUATION: ${evaluation.model}`);
+  lines.push("=".repeat(100));
+  lines.push(`Generated: ${new Date(evaluation.timestamp).toLocaleString()}`);
+  lines.push(`Labeled calls: ${evaluation.totalCalls} (${evaluation.failedCalls} failed to analyze)`);
+  lines.push("");
+
+  lines.push("CATEGORY SCORES");
+  lines.push("-".repeat(100));
+  lines.push(
+    `${"Category".padEnd(45)}${"Support".padStart(9)}${"TP".padStart(6)}${"FP".padStart(6)}${"FN".padStart(
+      6
+    )}${"Precision".padStart(11)}${"Recall".padStart(9)}${"F1".padStart(8)}`
+  );
+  lines.push("-".repeat(100));
+  evaluation.categories.forEach((c) => {
+    lines.push(
+      `${c.category.substring(0, 44).padEnd(45)}${String(c.support).padStart(9)}${String(
+        c.truePositives
+      ).padStart(6)}${String(c.falsePositives).padStart(6)}${String(c.falseNegatives).padStart(
+        6
+      )}${pct(c.precision).padStart(11)}${pct(c.recall).padStart(9)}${pct(c.f1).padStart(8)}`
+    );
+  });
+  lines.push("-".repeat(100));
+  lines.push(
+    `Micro average: precision ${pct(evaluation.micro.precision)}, recall ${pct(
+      evaluation.micro.recall
+    )}, F1 ${pct(evaluation.micro.f1)}`
+  );
+  lines.push(
+    `Macro average: precision ${pct(evaluation.macro.precision)}, recall ${pct(
+      evaluation.macro.recall
+    )}, F1 ${pct(evaluation.macro.f1)}`
+  );
+  lines.push(`Exact category match: ${pct(evaluation.exactMatchRate)}`);
+  lines.push("");
+
+  const { sentiment } = evaluation;
+  lines.push(`SENTIMENT CONFUSION MATRIX (rows: expected, columns: predicted; ${sentiment.evaluatedCalls} calls)`);
+  lines.push("-".repeat(100));
+  lines.push(`${"".padEnd(14)}${sentiment.predictedLabels.map((l) => l.padStart(14)).join("")}`);
+  sentiment.labels.forEach((label, i) => {
+    lines.push(`${label.padEnd(14)}${sentiment.matrix[i].map((n) => String(n).padStart(14)).join("")}`);
+  });
+  lines.push(`Accuracy: ${pct(sentiment.accuracy)}`);
+  lines.push("");
+
+  lines.push("LATENCY AND COST");
+  lines.push("-".repeat(100));
+  lines.push(`Total run time: ${(evaluation.latency.totalMs / 1000).toFixed(1)}s`);
+  lines.push(
+    `Per call: mean ${Math.round(evaluation.latency.meanMs)}ms, p50 ${evaluation.latency.p50Ms}ms, p95 ${
+      evaluation.latency.p95Ms
+    }ms, max ${evaluation.latency.maxMs}ms`
+  );
+  lines.push(
+    `Model requests: ${evaluation.usage.requests}, ${
+      evaluation.usage.estimated ? "estimated " : ""
+    }tokens: ${evaluation.usage.promptTokens} prompt + ${
+      evaluation.usage.completionTokens
+    } completion, cost ${formatCost(evaluation.usage.costUsd)}`
+  );
+
+  lines.push("=".repeat(100));
+  return lines.join("\n");
+}
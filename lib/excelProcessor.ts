@@ -1,5 +1,19 @@
 import * as XLSX from 'xlsx'
-import { CallData } from '@/types'
+import {
+  CallData,
+  ColumnMapping,
+  FilePreview,
+  MappedCallField,
+  RejectedRow,
+  RowIssue,
+  RowIssueCode,
+  RowValidationReport,
+  SheetSelection,
+  SheetSummary,
+  SkippedSheet,
+} from '@/types'
+import { FileFormat } from '@/lib/fileFormats'
+import { collectColumns, fallbackColumns, suggestColumnMapping, validateColumnMapping } from '@/lib/columnMapping'
 
 export interface RawCallData {
   'Originating Number'?: string | number
@@ -14,30 +28,331 @@ export interface RawCallData {
   [key: string]: any
 }
 
-export function parseExcelFile(buffer: Buffer): RawCallData[] {
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'latin1'
+
+export interface ParsedCallFile {
+  records: RawCallData[]
+  /** Detected encoding of text formats. */
+  encoding?: TextEncodingName
+  /** Every sheet of a workbook. */
+  sheets?: SheetSummary[]
+  /** Sheets whose rows are in `records`, in workbook order. */
+  usedSheets?: string[]
+  /** Sheets left out of a 'matching' merge, with the reason. */
+  skippedSheets?: SkippedSheet[]
+  /** Source sheet of each record. */
+  recordSheets?: string[]
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(column => b.includes(column))
+}
+
+/**
+ * Parses a `sheets` form field: a JSON array of sheet names, or "matching"
+ * to merge every sheet with the same columns as the first one.
+ */
+export function parseSheetSelection(input: string): SheetSelection {
+  if (input.trim() === 'matching') return 'matching'
+  let parsed: any
+  try {
+    parsed = JSON.parse(input)
+  } catch (error: any) {
+    throw new Error(`Expected "matching" or a JSON array of sheet names: ${error.message}`)
+  }
+  if (!Array.isArray(parsed) || parsed.some(name => typeof name !== 'string')) {
+    throw new Error('Expected "matching" or a JSON array of sheet names')
+  }
+  return parsed
+}
+
+/**
+ * Reads the selected sheets of a workbook (the first sheet by default) into
+ * one list of rows, remembering the sheet of each row.
+ */
+export function parseExcelFile(buffer: Buffer, sheetSelection: SheetSelection = []): ParsedCallFile {
+  let workbook: XLSX.WorkBook
   try {
     console.log('📄 Starting Excel file parsing...')
     console.log(`📊 File size: ${(buffer.length / 1024).toFixed(2)} KB`)
     
-    const workbook = XLSX.read(buffer, { type: 'buffer' })
+    workbook = XLSX.read(buffer, { type: 'buffer' })
     console.log(`📋 Found ${workbook.SheetNames.length} sheet(s): ${workbook.SheetNames.join(', ')}`)
-    
-    const sheetName = workbook.SheetNames[0]
-    console.log(`✅ Using sheet: "${sheetName}"`)
-    
-    const worksheet = workbook.Sheets[sheetName]
-    const data = XLSX.utils.sheet_to_json<RawCallData>(worksheet)
-    
-    console.log(`✅ Successfully parsed ${data.length} records from Excel file`)
-    
-    return data
   } catch (error) {
     console.error('❌ Error parsing Excel file:', error)
     throw new Error('Failed to parse Excel file')
   }
+
+  const sheetRows: Record<string, RawCallData[]> = {}
+  const sheets: SheetSummary[] = workbook.SheetNames.map(name => {
+    sheetRows[name] = XLSX.utils.sheet_to_json<RawCallData>(workbook.Sheets[name])
+    return { name, rows: sheetRows[name].length, columns: collectColumns(sheetRows[name]) }
+  })
+
+  const skippedSheets: SkippedSheet[] = []
+  let usedSheets: string[]
+  if (sheetSelection === 'matching') {
+    const reference = sheets.find(sheet => sheet.rows > 0) || sheets[0]
+    usedSheets = []
+    sheets.forEach(sheet => {
+      if (sheet.rows === 0) {
+        skippedSheets.push({ name: sheet.name, reason: 'no rows' })
+      } else if (!sameColumns(sheet.columns, reference.columns)) {
+        skippedSheets.push({ name: sheet.name, reason: `columns differ from "${reference.name}"` })
+      } else {
+        usedSheets.push(sheet.name)
+      }
+    })
+  } else if (sheetSelection.length > 0) {
+    const missing = sheetSelection.filter(name => !workbook.SheetNames.includes(name))
+    if (missing.length > 0) {
+      throw new Error(`Sheet "${missing[0]}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`)
+    }
+    usedSheets = workbook.SheetNames.filter(name => sheetSelection.includes(name))
+  } else {
+    usedSheets = workbook.SheetNames.slice(0, 1)
+  }
+
+  console.log(`✅ Using sheet(s): ${usedSheets.map(name => `"${name}"`).join(', ')}`)
+  skippedSheets.forEach(({ name, reason }) => {
+    console.log(`⚠️  Skipped sheet "${name}": ${reason}`)
+  })
+
+  const records: RawCallData[] = []
+  const recordSheets: string[] = []
+  usedSheets.forEach(name => {
+    sheetRows[name].forEach(row => {
+      records.push(row)
+      recordSheets.push(name)
+    })
+  })
+  
+  console.log(`✅ Successfully parsed ${records.length} records from Excel file`)
+  
+  return { records, sheets, usedSheets, skippedSheets, recordSheets }
+}
+
+/**
+ * Decodes a text export. A UTF-8 or UTF-16 byte order mark decides the
+ * encoding; without one, the bytes are read as UTF-8 if they are valid UTF-8
+ * and as Latin-1 otherwise.
+ */
+export function decodeText(buffer: Buffer): { text: string; encoding: TextEncodingName } {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString('utf8'), encoding: 'utf-8' }
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: buffer.subarray(2).toString('utf16le'), encoding: 'utf-16le' }
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' }
+  } catch {
+    return { text: buffer.toString('latin1'), encoding: 'latin1' }
+  }
+}
+
+/**
+ * Parses delimited text with a header row. Quoted fields may contain the
+ * delimiter, line breaks and doubled quotes. Like the Excel parser, empty
+ * cells are left out of the record.
+ */
+export function parseDelimitedText(text: string, delimiter: string): RawCallData[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field')
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header, ...body] = rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+  if (!header) return []
+  const columns = header.map(name => name.trim())
+
+  return body.map(cells => {
+    const record: RawCallData = {}
+    columns.forEach((column, index) => {
+      const value = cells[index]
+      if (column && value !== undefined && value.trim() !== '') {
+        record[column] = value
+      }
+    })
+    return record
+  })
+}
+
+function toRecord(value: unknown, position: string): RawCallData {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${position} is not a JSON object`)
+  }
+  return value as RawCallData
+}
+
+/** Parses a JSON array of call objects, or JSON Lines with one call object per line. */
+export function parseJsonRecords(text: string, lines: boolean): RawCallData[] {
+  if (!lines) {
+    const data = JSON.parse(text)
+    if (!Array.isArray(data)) {
+      throw new Error('Expected a JSON array of call objects')
+    }
+    return data.map((value, index) => toRecord(value, `Record ${index + 1}`))
+  }
+
+  const records: RawCallData[] = []
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch (error: any) {
+      throw new Error(`Line ${index + 1} is not valid JSON: ${error.message}`)
+    }
+    records.push(toRecord(value, `Line ${index + 1}`))
+  })
+  return records
+}
+
+/** Parses an uploaded call file of any registered format into raw call rows. */
+export function parseCallFile(buffer: Buffer, format: FileFormat, sheetSelection?: SheetSelection): ParsedCallFile {
+  if (format.id === 'excel') {
+    return parseExcelFile(buffer, sheetSelection)
+  }
+
+  console.log(`📄 Starting ${format.label} file parsing...`)
+  console.log(`📊 File size: ${(buffer.length / 1024).toFixed(2)} KB`)
+  const { text, encoding } = decodeText(buffer)
+  console.log(`🔤 Detected text encoding: ${encoding}`)
+
+  let records: RawCallData[]
+  try {
+    records = format.id === 'csv' || format.id === 'tsv'
+      ? parseDelimitedText(text, format.id === 'csv' ? ',' : '\t')
+      : parseJsonRecords(text, format.id === 'jsonl')
+  } catch (error: any) {
+    console.error(`❌ Error parsing ${format.label} file:`, error)
+    throw new Error(`Failed to parse ${format.label} file: ${error.message}`)
+  }
+
+  console.log(`✅ Successfully parsed ${records.length} records from ${format.label} file`)
+  return { records, encoding }
+}
+
+const PREVIEW_ROWS = 5
+const PREVIEW_VALUE_LENGTH = 200
+
+/** Columns, sample rows and a suggested column mapping, for the upload screen's mapping step. */
+export function previewCallFile(parsed: ParsedCallFile): FilePreview {
+  const rawData = parsed.records
+  const columns = collectColumns(rawData)
+  return {
+    columns,
+    sampleRows: rawData.slice(0, PREVIEW_ROWS).map(row => {
+      const sample: Record<string, string> = {}
+      columns.forEach(column => {
+        if (row[column] !== undefined && row[column] !== null) {
+          sample[column] = String(row[column]).slice(0, PREVIEW_VALUE_LENGTH)
+        }
+      })
+      return sample
+    }),
+    totalRows: rawData.length,
+    suggestedMapping: suggestColumnMapping(columns),
+    sheets: parsed.sheets,
+    usedSheets: parsed.usedSheets,
+    skippedSheets: parsed.skippedSheets,
+  }
 }
 
-export function transformRawData(rawData: RawCallData[]): Array<{
+/** Seconds from a number, a numeric string or "[h:]mm:ss"; undefined when the value is not a duration. */
+export function parseDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value >= 0 ? value : undefined
+  }
+  const text = String(value).trim()
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Number(text)
+  }
+  if (/^(\d+:)?\d{1,2}:\d{2}$/.test(text)) {
+    return text.split(':').reduce((seconds, part) => seconds * 60 + Number(part), 0)
+  }
+  return undefined
+}
+
+// Excel stores dates as days since 1899-12-30; 25569 is 1970-01-01.
+const EXCEL_EPOCH_OFFSET_DAYS = 25569
+const MAX_EXCEL_SERIAL = 2958465
+
+/**
+ * Call date as text: Excel date numbers become ISO timestamps, parseable
+ * strings are kept as written. Undefined when the value is not a date.
+ */
+export function parseTimestamp(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    if (value <= 0 || value > MAX_EXCEL_SERIAL) return undefined
+    return new Date(Math.round((value - EXCEL_EPOCH_OFFSET_DAYS) * 86400 * 1000)).toISOString()
+  }
+  const text = String(value).trim()
+  return isNaN(Date.parse(text)) ? undefined : text
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === ''
+}
+
+type CellReader = (row: RawCallData, field: MappedCallField) => unknown
+
+/**
+ * Reads a field from its mapped column, or from the first other column with
+ * one of the field's names when that cell is blank, e.g. summary_points for
+ * rows without a Transcript.
+ */
+function cellReader(mapping: ColumnMapping, columns: string[]): CellReader {
+  const fallbacks = fallbackColumns(mapping, columns)
+  return (row, field) => {
+    const column = mapping[field]
+    if (!column) return undefined
+    const filled = [column, ...(fallbacks[field] || [])].find(c => !isBlank(row[c]))
+    return row[filled || column]
+  }
+}
+
+/**
+ * Builds calls from raw rows. Without a column mapping, columns are matched
+ * to fields by their headers (see suggestColumnMapping). `recordSheets` tags
+ * each call with the workbook sheet its row came from.
+ */
+export function transformRawData(rawData: RawCallData[], columnMapping?: ColumnMapping, recordSheets?: string[]): Array<{
   id: string
   phone: string
   customer: string
@@ -48,25 +363,31 @@ export function transformRawData(rawData: RawCallData[]): Array<{
   issuesDiscussed?: string
   sentiment?: string
   outcome?: string
+  sourceSheet?: string
+  rowIssues?: RowIssue[]
 }> {
   console.log(`🔄 Transforming ${rawData.length} raw records...`)
+  const columns = collectColumns(rawData)
+  const readCell = cellReader(columnMapping || suggestColumnMapping(columns), columns)
   
   const transformed = rawData.map((row, index) => {
     if (index > 0 && index % 100 === 0) {
       console.log(`   ⏳ Transformed ${index}/${rawData.length} records...`)
     }
+    const cell = (field: MappedCallField) => readCell(row, field)
     
     return {
       id: `call-${index + 1}`,
-      phone: String(row['Originating Number'] || 'Unknown'),
-      customer: String(row['customer_name'] || 'Unknown'),
-      date: String(row['Start Timestamp'] || new Date().toISOString()),
-      duration: Number(row['Call duration'] || 0),
-      transcript: String(row['Transcript'] || row['summary_points'] || 'No transcript available'),
-      callReason: row['call_reason'] ? String(row['call_reason']) : undefined,
-      issuesDiscussed: row['issues_discussed'] ? String(row['issues_discussed']) : undefined,
-      sentiment: row['customer_sentiment'] ? String(row['customer_sentiment']) : undefined,
-      outcome: row['outcome_status'] ? String(row['outcome_status']) : undefined,
+      phone: String(cell('phone') || 'Unknown'),
+      customer: String(cell('customer') || 'Unknown'),
+      date: isBlank(cell('date')) ? 'Unknown' : parseTimestamp(cell('date')) || String(cell('date')),
+      duration: isBlank(cell('duration')) ? 0 : parseDuration(cell('duration')) || 0,
+      transcript: String(cell('transcript') || 'No transcript available'),
+      callReason: cell('callReason') ? String(cell('callReason')) : undefined,
+      issuesDiscussed: cell('issuesDiscussed') ? String(cell('issuesDiscussed')) : undefined,
+      sentiment: cell('sentiment') ? String(cell('sentiment')) : undefined,
+      outcome: cell('outcome') ? String(cell('outcome')) : undefined,
+      ...(recordSheets ? { sourceSheet: recordSheets[index] } : {}),
     }
   })
   
@@ -75,40 +396,102 @@ export function transformRawData(rawData: RawCallData[]): Array<{
   return transformed
 }
 
-export function validateExcelStructure(data: RawCallData[]): {
+/** Problems in one raw row: errors reject it, warnings keep it with a default value. */
+function findRowIssues(row: RawCallData, mapping: ColumnMapping, readCell: CellReader): RowIssue[] {
+  const issues: RowIssue[] = []
+  const transcript = readCell(row, 'transcript')
+  if (isBlank(transcript)) {
+    issues.push({ code: 'EMPTY_TRANSCRIPT', severity: 'error', column: mapping.transcript, message: 'Transcript is empty' })
+  }
+  const duration = readCell(row, 'duration')
+  if (!isBlank(duration) && parseDuration(duration) === undefined) {
+    issues.push({ code: 'INVALID_DURATION', severity: 'warning', column: mapping.duration, message: `Duration "${duration}" is not a number of seconds; using 0` })
+  }
+  const timestamp = readCell(row, 'date')
+  if (!isBlank(timestamp) && parseTimestamp(timestamp) === undefined) {
+    issues.push({ code: 'INVALID_TIMESTAMP', severity: 'warning', column: mapping.date, message: `Timestamp "${timestamp}" could not be parsed; kept as text` })
+  }
+  return issues
+}
+
+/**
+ * Checks every row before it is sent to a model. Rows with errors (an empty
+ * transcript) are left out and listed in the report with their original
+ * values; rows with warnings are kept and carry their issues.
+ */
+export function validateRows(
+  rawData: RawCallData[],
+  columnMapping?: ColumnMapping,
+  recordSheets?: string[]
+): { calls: ReturnType<typeof transformRawData>; report: RowValidationReport } {
+  console.log(`🧪 Validating ${rawData.length} rows...`)
+  const columns = collectColumns(rawData)
+  const mapping = columnMapping || suggestColumnMapping(columns)
+  const readCell = cellReader(mapping, columns)
+  const transformed = transformRawData(rawData, mapping, recordSheets)
+
+  const calls: ReturnType<typeof transformRawData> = []
+  const rejectedRows: RejectedRow[] = []
+  const issueCounts: Partial<Record<RowIssueCode, number>> = {}
+  const sheetPositions: Record<string, number> = {}
+  let warnedRows = 0
+
+  rawData.forEach((row, index) => {
+    const sheet = recordSheets?.[index]
+    const rowNumber = (sheetPositions[sheet || ''] || 0) + 1
+    sheetPositions[sheet || ''] = rowNumber
+
+    const issues = findRowIssues(row, mapping, readCell)
+    issues.forEach(issue => {
+      issueCounts[issue.code] = (issueCounts[issue.code] || 0) + 1
+    })
+    if (issues.some(issue => issue.severity === 'error')) {
+      const values: Record<string, string> = {}
+      Object.keys(row).forEach(column => {
+        values[column] = String(row[column])
+      })
+      rejectedRows.push({ rowNumber, ...(sheet ? { sheet } : {}), issues, values })
+    } else if (issues.length > 0) {
+      warnedRows++
+      calls.push({ ...transformed[index], rowIssues: issues })
+    } else {
+      calls.push(transformed[index])
+    }
+  })
+
+  console.log(`✅ ${calls.length} row(s) accepted (${warnedRows} with warnings), ${rejectedRows.length} rejected`)
+
+  return {
+    calls,
+    report: { totalRows: rawData.length, acceptedRows: calls.length, warnedRows, rejectedRows, issueCounts },
+  }
+}
+
+export function validateExcelStructure(data: RawCallData[], columnMapping?: ColumnMapping): {
   isValid: boolean
   errors: string[]
 } {
-  console.log('🔍 Validating Excel file structure...')
+  console.log('🔍 Validating file structure...')
   const errors: string[] = []
 
   if (data.length === 0) {
-    console.log('❌ Validation failed: Excel file is empty')
-    errors.push('Excel file is empty')
+    console.log('❌ Validation failed: file is empty')
+    errors.push('File is empty')
     return { isValid: false, errors }
   }
 
   console.log(`   Validating ${data.length} records...`)
 
-  const firstRow = data[0]
-  const availableColumns = Object.keys(firstRow)
+  const availableColumns = collectColumns(data)
   console.log(`   Found ${availableColumns.length} columns: ${availableColumns.slice(0, 5).join(', ')}${availableColumns.length > 5 ? '...' : ''}`)
   
-  const hasTranscript = 'Transcript' in firstRow || 'summary_points' in firstRow
-  const hasPhoneNumber = 'Originating Number' in firstRow
-  
-  if (!hasTranscript) {
-    console.log('❌ Missing required column: Transcript or summary_points')
-    errors.push('Missing required column: Transcript or summary_points')
-  } else {
-    console.log('✅ Found transcript column')
-  }
-  
-  if (!hasPhoneNumber) {
-    console.log('❌ Missing required column: Originating Number')
-    errors.push('Missing required column: Originating Number')
-  } else {
-    console.log('✅ Found phone number column')
+  const mapping = columnMapping || suggestColumnMapping(availableColumns)
+  validateColumnMapping(mapping, availableColumns).forEach(mappingError => {
+    console.log(`❌ ${mappingError}`)
+    errors.push(mappingError)
+  })
+  if (mapping.transcript && mapping.phone) {
+    console.log(`✅ Using "${mapping.transcript}" as the transcript and "${mapping.phone}" as the phone number`)
   }
 
   const isValid = errors.length === 0
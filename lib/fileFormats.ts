@@ -0,0 +1,40 @@
+/**
+ * Call file formats accepted for upload. Both the upload screen and the API
+ * routes check file names against this registry. Safe to import from client
+ * components.
+ */
+
+export type FileFormatId = "excel" | "csv" | "tsv" | "json" | "jsonl";
+
+export interface FileFormat {
+  id: FileFormatId;
+  label: string;
+  extensions: string[];
+}
+
+export const FILE_FORMATS: FileFormat[] = [
+  { id: "excel", label: "Excel", extensions: [".xlsx", ".xls"] },
+  { id: "csv", label: "CSV", extensions: [".csv"] },
+  { id: "tsv", label: "TSV", extensions: [".tsv"] },
+  { id: "json", label: "JSON", extensions: [".json"] },
+  { id: "jsonl", label: "JSON Lines", extensions: [".jsonl", ".ndjson"] },
+];
+
+export const SUPPORTED_EXTENSIONS = FILE_FORMATS.reduce<string[]>(
+  (all, format) => all.concat(format.extensions),
+  []
+);
+
+/** Value for a file input's `accept` attribute. */
+export const FILE_INPUT_ACCEPT = SUPPORTED_EXTENSIONS.join(",");
+
+export const SUPPORTED_FORMATS_TEXT = SUPPORTED_EXTENSIONS.join(", ");
+
+export const UNSUPPORTED_FORMAT_ERROR = `Unsupported file type. Supported formats: ${SUPPORTED_FORMATS_TEXT}`;
+
+export function detectFileFormat(fileName: string): FileFormat | undefined {
+  const name = fileName.toLowerCase();
+  return FILE_FORMATS.find((format) =>
+    format.extensions.some((extension) => name.endsWith(extension))
+  );
+}
@@ -1,121 +1,143 @@
-import { AnalysisData } from "@/types";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const GROQ_API_KEY = process.env.GROQ_API_KEY || "";
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
-const GROQ_API_URL = "https://api.groq.com/openai/v1/chat/completions";
-
-export type Provider = "gemini" | "groq";
-export type ModelConfig = {
-  provider: Provider;
-  model: string;
+import {
+  AnalysisCoverage,
+  AnalysisData,
+  CallConfidence,
+  EnsembleOutcome,
+  ModelConfig,
+  ModelSwitch,
+  PromptProfile,
+  Taxonomy,
+  TokenUsage,
+} from "@/types";
+import {
+  findModel,
+  findProvider,
+  getCircuitBreakerPolicy,
+  getModelPrice,
+  getProvider,
+  getRetryPolicy,
+} from "@/lib/providers";
+import { getCircuitBreaker, isOutage } from "@/lib/circuitBreaker";
+import { estimateTokens, getRateLimiter } from "@/lib/rateLimiter";
+import {
+  CacheMode,
+  readCachedResult,
+  resultCacheKey,
+  writeCachedResult,
+} from "@/lib/resultCache";
+import {
+  LongTranscriptMode,
+  mergeChunkCategories,
+  planTranscript,
+} from "@/lib/transcriptChunking";
+import {
+  CHUNK_REDUCE_SCHEMA,
+  GROUP_ENVELOPE_SCHEMA,
+  JsonSchema,
+  categorizationSchema,
+  groupCategorizationSchema,
+  groupEntrySchema,
+  parseStructuredOutput,
+  validateSchema,
+} from "@/lib/outputSchema";
+import { allowedCategoryNames, applyTaxonomy } from "@/lib/taxonomy";
+import {
+  CATEGORIZATION_TEMPLATES,
+  PROMPT_TEMPLATES,
+  categorizationVariables,
+  renderPrompt,
+  templateVersions,
+} from "@/lib/promptTemplates";
+import { DEFAULT_PROMPT_PROFILE } from "@/lib/promptProfiles";
+import { EnsembleMember, combineEnsembleResults } from "@/lib/ensemble";
+import { isQuotaExhausted, shouldFailOver } from "@/lib/modelFallback";
+import { formatCost, formatTokens, splitUsage, sumUsage, usageCost } from "@/lib/usage";
+
+export type { ModelConfig } from "@/types";
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  provider: "groq",
+  model: "llama-3.3-70b-versatile",
 };
 
-let currentModelConfig: ModelConfig | null = null;
-
-export function setModelConfig(config: ModelConfig) {
-  currentModelConfig = config;
-}
-
-function getModelConfig(): ModelConfig {
-  if (!currentModelConfig) {
-    return { provider: "groq", model: "llama-3.3-70b-versatile" };
-  }
-  return currentModelConfig;
-}
+const DEFAULT_CONCURRENCY = 4;
 
-async function callGroqAPI(
-  messages: Array<{ role: string; content: string }>,
-  model: string
+async function runCompletion(
+  options: Pick<AnalysisOptions, "modelConfig" | "onUsage" | "logCallback">,
+  prompt: string,
+  system: string,
+  expectedOutputTokens: number,
+  responseSchema?: JsonSchema
 ): Promise<string> {
-  if (!GROQ_API_KEY) {
-    throw new Error(
-      "GROQ_API_KEY is not set. Please set it in your environment variables."
-    );
-  }
-
-  const response = await fetch(GROQ_API_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${GROQ_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: model,
-      messages: messages,
-      temperature: 0.7,
-      max_tokens: 8192,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    const error: any = new Error(
-      errorData.error?.message ||
-        `HTTP ${response.status}: ${response.statusText}`
+  const { modelConfig: config } = options;
+  const provider = getProvider(config.provider);
+  const limits = findModel(config)?.limits || {};
+  const promptTokens = estimateTokens(system + prompt);
+  const policy = getRetryPolicy(config.provider);
+  const breaker = getCircuitBreaker(config, getCircuitBreakerPolicy(config.provider));
+  breaker.beforeRequest(options.logCallback);
+  const limiter = getRateLimiter(config, limits);
+  try {
+    await limiter.acquire(
+      promptTokens + expectedOutputTokens,
+      policy.maxDelayMs[429] ?? policy.maxDelayMs.default
     );
-    error.status = response.status;
-    error.errorData = errorData;
+  } catch (error) {
+    breaker.releaseProbe();
     throw error;
   }
 
-  const data = await response.json();
-  return data.choices[0]?.message?.content || "";
-}
-
-async function callGeminiAPI(prompt: string, model: string): Promise<string> {
-  if (!GEMINI_API_KEY) {
-    throw new Error(
-      "GEMINI_API_KEY is not set. Please set it in your environment variables."
-    );
+  const startTime = Date.now();
+  let result;
+  try {
+    result = await provider.complete({
+      model: config.model,
+      prompt,
+      system,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      responseSchema,
+    });
+  } catch (error: any) {
+    if (error?.rateLimit) limiter.observe(error.rateLimit);
+    if (isOutage(error)) {
+      breaker.recordFailure(options.logCallback);
+    } else {
+      breaker.releaseProbe();
+    }
+    throw error;
   }
-
-  const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-  const geminiModel = genAI.getGenerativeModel({ model: model });
-
-  const result = await geminiModel.generateContent(prompt);
-  const response = await result.response;
-  return response.text();
+  breaker.recordSuccess(options.logCallback);
+  if (result.rateLimit) limiter.observe(result.rateLimit);
+  const usage = result.usage || {
+    promptTokens,
+    completionTokens: estimateTokens(result.text),
+  };
+  options.onUsage?.({
+    model: describeModel(config),
+    ...usage,
+    costUsd: usageCost(usage.promptTokens, usage.completionTokens, getModelPrice(config)),
+    estimated: !result.usage,
+    latencyMs: Date.now() - startTime,
+  });
+  return result.text;
 }
 
+/**
+ * Retries failed requests according to the provider's retry policy. Waits as
+ * long as the server asked (retry-after) when it said, and pauses the shared
+ * rate limiter for that long so concurrent requests back off too; otherwise
+ * backs off exponentially.
+ */
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
-  maxRetries: number = 5,
-  retryCount: number = 0,
-  logCallback?: LogCallback
+  config: ModelConfig,
+  logCallback?: LogCallback,
+  retryCount: number = 0
 ): Promise<T> {
   try {
     return await fn();
   } catch (error: any) {
-    const shouldRetry = retryCount < maxRetries;
-    
-    if (error?.status === 429 && shouldRetry) {
-      const retryDelay = Math.min(5000 * Math.pow(2, retryCount), 90000);
-      const logMsg = `⚠️  Rate limit hit. Retrying after ${
-        retryDelay / 1000
-      } seconds... (Attempt ${retryCount + 1}/${maxRetries})`;
-      console.log(logMsg);
-      logCallback?.(logMsg, "warning");
-
-      await new Promise((resolve) => setTimeout(resolve, retryDelay));
-      return retryWithBackoff(fn, maxRetries, retryCount + 1, logCallback);
-    }
-    
-    if (error?.status === 503 && shouldRetry) {
-      const retryDelay = Math.min(10000 * Math.pow(2, retryCount), 180000);
-      const serviceMsg = `⚠️  Service overloaded (503). Retrying after ${
-        retryDelay / 1000
-      } seconds... (Attempt ${retryCount + 1}/${maxRetries})`;
-      console.log(serviceMsg);
-      logCallback?.(serviceMsg, "warning");
-      const tipMsg = `   💡 Tip: The API is currently busy. Waiting before retry...`;
-      console.log(tipMsg);
-      logCallback?.(tipMsg, "info");
-
-      await new Promise((resolve) => setTimeout(resolve, retryDelay));
-      return retryWithBackoff(fn, maxRetries, retryCount + 1, logCallback);
-    }
-    
     if (
       error?.status === 400 &&
       (error?.errorData?.error?.code === "context_length_exceeded" ||
@@ -129,27 +151,92 @@ async function retryWithBackoff<T>(
         "The data is too large to process. Please try with fewer calls or contact support."
       );
     }
-    
-    if (error?.status >= 500 && error?.status < 600 && shouldRetry) {
-      const retryDelay = Math.min(15000 * Math.pow(2, retryCount), 120000);
-      const logMsg = `⚠️  Server error (${error.status}). Retrying after ${
-        retryDelay / 1000
-      } seconds... (Attempt ${retryCount + 1}/${maxRetries})`;
+
+    // An open circuit already knows the provider is down; don't wait on it.
+    if (error?.circuitOpen) {
+      throw error;
+    }
+
+    const policy = getRetryPolicy(config.provider);
+    const status: number | undefined = error?.status;
+    // A used-up quota won't recover within the backoff window; let the caller fail over.
+    if (
+      status === undefined ||
+      retryCount >= policy.maxRetries ||
+      !policy.retryableStatuses.includes(status) ||
+      isQuotaExhausted(error)
+    ) {
+      throw error;
+    }
+
+    const maxDelay = policy.maxDelayMs[status] ?? policy.maxDelayMs.default;
+    const serverDelay: number | undefined = error.rateLimit?.retryAfterMs;
+    if (serverDelay !== undefined && serverDelay > maxDelay) {
+      const tooLongMsg = `⚠️  Server asked to wait ${Math.ceil(
+        serverDelay / 1000
+      )} seconds, longer than the ${maxDelay / 1000}-second limit. Giving up on this request.`;
+      console.log(tooLongMsg);
+      logCallback?.(tooLongMsg, "warning");
+      throw error;
+    }
+    const retryDelay =
+      serverDelay ??
+      Math.min(
+        (policy.baseDelayMs[status] ?? policy.baseDelayMs.default) *
+          Math.pow(2, retryCount),
+        maxDelay
+      );
+    if (serverDelay !== undefined) {
+      getRateLimiter(config, findModel(config)?.limits || {}).pauseFor(retryDelay);
+    }
+
+    const waitDescription = `Retrying after ${Math.ceil(retryDelay / 1000)} seconds${serverDelay !== undefined ? " as requested by the server" : ""}... (Attempt ${
+      retryCount + 1
+    }/${policy.maxRetries})`;
+    if (status === 429) {
+      const logMsg = `⚠️  Rate limit hit. ${waitDescription}`;
+      console.log(logMsg);
+      logCallback?.(logMsg, "warning");
+    } else if (status === 503) {
+      const serviceMsg = `⚠️  Service overloaded (503). ${waitDescription}`;
+      console.log(serviceMsg);
+      logCallback?.(serviceMsg, "warning");
+      const tipMsg = `   💡 Tip: The API is currently busy. Waiting before retry...`;
+      console.log(tipMsg);
+      logCallback?.(tipMsg, "info");
+    } else {
+      const logMsg = `⚠️  Server error (${status}). ${waitDescription}`;
       console.log(logMsg);
       logCallback?.(logMsg, "warning");
-
-      await new Promise((resolve) => setTimeout(resolve, retryDelay));
-      return retryWithBackoff(fn, maxRetries, retryCount + 1, logCallback);
     }
 
-    throw error;
+    await new Promise((resolve) => setTimeout(resolve, retryDelay));
+    return retryWithBackoff(fn, config, logCallback, retryCount + 1);
   }
 }
 
+export const PARSE_FAILED_CATEGORY = "UNCATEGORIZED - PARSE FAILED";
+
 export interface CategorizationResult {
   categories: string[];
-  sentiment: "positive" | "neutral" | "negative";
+  /** "parse_failed" when the model never produced output matching the schema. */
+  sentiment: "positive" | "neutral" | "negative" | "parse_failed";
   summary: string;
+  /** Free-text proposals for content filed under OTHER (taxonomy mode only). */
+  otherSuggestions?: string[];
+  coverage?: AnalysisCoverage;
+  confidence?: CallConfidence;
+  /** Set when the result was produced by a fallback path instead of a clean model answer. */
+  fallback?: boolean;
+  /** Wall-clock time spent analyzing the call, including retries. */
+  durationMs?: number;
+  /** Per-model votes when the call was analyzed by several models. */
+  ensemble?: EnsembleOutcome;
+  /** Set when a fallback model answered instead of `modelConfig`. */
+  modelSwitch?: ModelSwitch;
+  /** Tokens spent on the call, including failed chunks and retried requests that returned output. */
+  usage?: TokenUsage;
+  cached?: boolean;
 }
 
 export type LogCallback = (
@@ -157,140 +244,711 @@ export type LogCallback = (
   type?: "info" | "success" | "warning" | "error" | "progress"
 ) => void;
 
-export async function categorizeCall(
-  transcript: string,
-  callReason?: string,
-  issuesDiscussed?: string,
-  logCallback?: LogCallback
-): Promise<CategorizationResult> {
-  return retryWithBackoff(
-    async () => {
-      const config = getModelConfig();
-      const logMsg = `🤖 Analyzing call transcript (${transcript.length} characters) with ${config.provider}/${config.model}...`;
-      console.log(logMsg);
-      logCallback?.(logMsg, "info");
+export interface CallInput {
+  transcript: string;
+  callReason?: string;
+  issuesDiscussed?: string;
+}
 
-      const prompt = `You are an AI assistant analyzing customer service call transcripts for an automotive service center.
+/**
+ * Everything a single analysis run needs. Passed explicitly so concurrent
+ * requests never share provider or model state.
+ */
+export interface AnalysisOptions {
+  modelConfig: ModelConfig;
+  logCallback?: LogCallback;
+  /** Maximum calls in flight at once; the model's rate limits still apply. */
+  concurrency?: number;
+  /** Number of short calls packed into a single prompt (1 disables grouping). */
+  batchSize?: number;
+  /** "use" reads and writes the result cache, "refresh" only writes, "bypass" skips it. */
+  cacheMode?: CacheMode;
+  /** How transcripts longer than one prompt are handled (default "chunk"). */
+  longTranscripts?: LongTranscriptMode;
+  /** Restricts categories to these names plus OTHER. */
+  taxonomy?: Taxonomy;
+  /** Business context for the prompts (default: automotive service center). */
+  profile?: PromptProfile;
+  /** Called after every successful model request. */
+  onUsage?: (usage: CompletionUsage) => void;
+  /**
+   * Additional models that analyze every call alongside `modelConfig`; their
+   * answers are combined by majority vote. Disables multi-call prompts.
+   */
+  ensembleModels?: ModelConfig[];
+  /**
+   * Models tried in order when `modelConfig` is still rate-limited or failing
+   * after its retries. Not used for consensus runs.
+   */
+  fallbackModels?: ModelConfig[];
+}
 
-Analyze the following call transcript and provide:
-1. Relevant categories that best describe the call content. Create specific, meaningful category names based on what the customer is asking about or discussing. Do NOT assume categories based on business names (e.g., "Oil Changers" does not automatically mean oil-related services). Analyze the actual conversation content.
-2. Customer sentiment (positive, neutral, or negative)
-3. A brief summary of the call
+/** Token counts and cost of one model request and how long the provider took. */
+export interface CompletionUsage {
+  /** "provider/model" that served the request. */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Undefined when the model has no price. */
+  costUsd?: number;
+  /** True when the provider did not report usage and the counts were estimated. */
+  estimated: boolean;
+  latencyMs: number;
+}
 
-Call Information:
-${callReason ? `Call Reason: ${callReason}` : ""}
-${issuesDiscussed ? `Issues Discussed: ${issuesDiscussed}` : ""}
-Transcript: ${transcript.substring(0, 2000)}${
-        transcript.length > 2000 ? "..." : ""
-      }
+export function toTokenUsage(entries: CompletionUsage[]): TokenUsage {
+  return sumUsage(
+    entries.map((entry) => ({
+      requests: 1,
+      promptTokens: entry.promptTokens,
+      completionTokens: entry.completionTokens,
+      ...(entry.costUsd !== undefined ? { costUsd: entry.costUsd } : {}),
+      ...(entry.estimated ? { estimated: true } : {}),
+    }))
+  );
+}
 
-Respond ONLY with valid JSON format (no markdown, no code blocks, just the JSON object):
-{
-  "categories": ["CATEGORY 1", "CATEGORY 2"],
-  "sentiment": "neutral",
-  "summary": "Brief summary of the call"
+function profileOf(options: Pick<AnalysisOptions, "profile">): PromptProfile {
+  return options.profile || DEFAULT_PROMPT_PROFILE;
 }
 
-Important: 
-- Create categories based on the actual conversation content, not business names or assumptions
-- Categories should be specific and descriptive (e.g., "PRICING INQUIRY", "SCHEDULING REQUEST", "SERVICE COMPLAINT", "PRODUCT INFORMATION", etc.)
-- Only include categories that clearly apply to the conversation
-- Be accurate and avoid false assumptions
-- Return ONLY the JSON object, no other text`;
+type ParsedCategorization = CategorizationResult & {
+  otherSuggestion?: string;
+  categoryConfidence?: number[];
+  sentimentConfidence?: number;
+};
 
-      let text: string;
+/**
+ * Pairs the model's per-category scores with the final labels. A label that
+ * several raw categories map to keeps the highest score.
+ */
+function toConfidence(
+  labels: string[],
+  parsed: ParsedCategorization
+): CallConfidence | undefined {
+  const scores = parsed.categoryConfidence || [];
+  if (scores.length === 0 && parsed.sentimentConfidence === undefined) {
+    return undefined;
+  }
+  const categories: Record<string, number> = {};
+  labels.forEach((label, i) => {
+    if (typeof scores[i] === "number") {
+      categories[label] = Math.max(categories[label] ?? 0, scores[i]);
+    }
+  });
+  return { categories, sentiment: parsed.sentimentConfidence };
+}
 
-      if (config.provider === "gemini") {
-        text = await callGeminiAPI(prompt, config.model);
-      } else {
-        const messages = [
-          {
-            role: "system",
-            content:
-              "You are a helpful AI assistant that analyzes customer service calls. Always respond with valid JSON only.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ];
-        text = await callGroqAPI(messages, config.model);
-      }
+/** Applies the taxonomy (if any) to one parsed result. */
+function toCategorizationResult(
+  parsed: ParsedCategorization,
+  taxonomy?: Taxonomy
+): CategorizationResult {
+  const { categories, sentiment, summary } = parsed;
+  if (!taxonomy) {
+    const confidence = toConfidence(categories, parsed);
+    return { categories, sentiment, summary, ...(confidence ? { confidence } : {}) };
+  }
+  const constrained = applyTaxonomy(categories, parsed.otherSuggestion, taxonomy);
+  const confidence = toConfidence(
+    categories.map((c) => applyTaxonomy([c], undefined, taxonomy).categories[0]),
+    parsed
+  );
+  return {
+    categories: constrained.categories,
+    sentiment,
+    summary,
+    ...(constrained.otherSuggestions.length > 0
+      ? { otherSuggestions: constrained.otherSuggestions }
+      : {}),
+    ...(confidence ? { confidence } : {}),
+  };
+}
+
+/** One corrective re-prompt: the original request plus what was wrong with the answer. */
+function buildRepairPrompt(
+  prompt: string,
+  response: string,
+  error: string
+): string {
+  return `${prompt}
+
+Your previous response was rejected: ${error}
+Previous response:
+${response.substring(0, 1000)}
+
+Return ONLY the corrected JSON, with every required field present and valid.`;
+}
+
+function parseFailedResult(error: string): CategorizationResult {
+  return {
+    categories: [PARSE_FAILED_CATEGORY],
+    sentiment: "parse_failed",
+    summary: `Model output could not be parsed: ${error}`,
+    fallback: true,
+  };
+}
 
-      let jsonText = text.trim();
-      jsonText = jsonText
-        .replace(/```json\n?/g, "")
-        .replace(/```\n?/g, "")
-        .trim();
+const MIN_CHUNK_CHARS = 2000;
+const MAX_CHUNK_CHARS = 8000;
+
+/**
+ * Largest transcript slice sent in one prompt. Bounded by the model's context
+ * window and per-minute token budget so a single chunk never stalls the limiter.
+ */
+function chunkCharsFor(config: ModelConfig): number {
+  const model = findModel(config);
+  const contextWindow =
+    model?.contextWindow ||
+    findProvider(config.provider)?.capabilities.contextWindow ||
+    MIN_CHUNK_CHARS;
+  const tokenBudget = Math.min(
+    contextWindow / 2,
+    (model?.limits.tokensPerMinute || Infinity) / 2
+  );
+  return Math.min(
+    MAX_CHUNK_CHARS,
+    Math.max(MIN_CHUNK_CHARS, Math.floor(tokenBudget * 4))
+  );
+}
+
+async function analyzeTranscriptSegment(
+  call: CallInput,
+  segment: string,
+  part: { index: number; total: number } | null,
+  options: AnalysisOptions
+): Promise<CategorizationResult> {
+  const { callReason, issuesDiscussed } = call;
+  const { modelConfig: config, logCallback, taxonomy } = options;
+  const schema = categorizationSchema(
+    taxonomy ? allowedCategoryNames(taxonomy) : undefined
+  );
+
+  return retryWithBackoff(
+    async () => {
+      const logMsg = part
+        ? `🤖 Analyzing part ${part.index}/${part.total} of call transcript (${segment.length} characters) with ${config.provider}/${config.model}...`
+        : `🤖 Analyzing call transcript (${segment.length} characters) with ${config.provider}/${config.model}...`;
+      console.log(logMsg);
+      logCallback?.(logMsg, "info");
 
-      const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        const errorMsg = `❌ Failed to extract JSON from ${config.provider} response`;
+      const partNote = part
+        ? `\nThis is part ${part.index} of ${part.total} of a longer call transcript. Analyze only this part; the parts are combined afterwards.\n`
+        : "";
+
+      const prompt = renderPrompt("categorizeCall", profileOf(options), {
+        ...categorizationVariables(taxonomy),
+        partNote,
+        callReason: callReason ? `Call Reason: ${callReason}` : "",
+        issuesDiscussed: issuesDiscussed ? `Issues Discussed: ${issuesDiscussed}` : "",
+        transcript: segment,
+      });
+
+      let text = await runCompletion(
+        options,
+        prompt,
+        PROMPT_TEMPLATES.categorizeCall.system,
+        300,
+        schema
+      );
+      let parsed = parseStructuredOutput<ParsedCategorization>(text, schema);
+
+      if (!parsed.ok) {
+        const repairMsg = `   🔧 Invalid ${config.provider} response (${parsed.error}). Asking the model to correct it...`;
+        console.log(repairMsg);
+        logCallback?.(repairMsg, "warning");
+
+        text = await runCompletion(
+          options,
+          buildRepairPrompt(prompt, text, parsed.error),
+          PROMPT_TEMPLATES.categorizeCall.system,
+          300,
+          schema
+        );
+        parsed = parseStructuredOutput<ParsedCategorization>(text, schema);
+      }
+
+      if (!parsed.ok) {
+        const errorMsg = `❌ ${config.provider} response still invalid after correction: ${parsed.error}`;
         const detailMsg = `Response: ${text.substring(0, 200)}`;
         console.log(errorMsg);
         console.log(detailMsg);
         logCallback?.(errorMsg, "error");
         logCallback?.(detailMsg, "error");
-        throw new Error(`No JSON found in ${config.provider} response`);
+        return parseFailedResult(parsed.error);
       }
 
-      let parsed;
-      try {
-        parsed = JSON.parse(jsonMatch[0]);
-      } catch (parseError) {
-        const errorMsg = `❌ Failed to parse JSON from ${config.provider} response`;
-        const detailMsg = `JSON text: ${jsonMatch[0].substring(0, 200)}`;
-        console.log(errorMsg);
-        console.log(detailMsg);
-        logCallback?.(errorMsg, "error");
-        logCallback?.(detailMsg, "error");
-        throw new Error(`Invalid JSON in ${config.provider} response`);
+      const result = toCategorizationResult(parsed.value, taxonomy);
+      const successMsg = `✅ Call analyzed: ${result.categories.length} categories, sentiment: ${result.sentiment}`;
+      console.log(successMsg);
+      logCallback?.(successMsg, "success");
+
+      return result;
+    },
+    config,
+    logCallback
+  );
+}
+
+type ReducedChunks = Pick<CategorizationResult, "sentiment" | "summary"> & {
+  sentimentConfidence?: number;
+  fallback?: boolean;
+};
+
+/**
+ * Used when the reduce request fails: the call's outcome is best reflected by
+ * how it ended, so the last non-neutral chunk decides the sentiment.
+ */
+function mergeChunkResultsLocally(partials: CategorizationResult[]): ReducedChunks {
+  const decisive = partials.filter((p) => p.sentiment !== "neutral");
+  const deciding = decisive.length ? decisive[decisive.length - 1] : undefined;
+  return {
+    sentiment: deciding ? deciding.sentiment : "neutral",
+    sentimentConfidence: deciding?.confidence?.sentiment,
+    summary: partials.map((p) => p.summary).join(" "),
+    fallback: true,
+  };
+}
+
+/** Combines per-chunk analyses of one call into a single sentiment and summary. */
+async function reduceChunkResults(
+  partials: CategorizationResult[],
+  options: AnalysisOptions
+): Promise<ReducedChunks> {
+  const { modelConfig: config, logCallback } = options;
+
+  const prompt = renderPrompt("combineChunks", profileOf(options), {
+    partCount: partials.length,
+    partials: JSON.stringify(
+      partials.map((p, i) => ({
+        part: i + 1,
+        categories: p.categories,
+        sentiment: p.sentiment,
+        sentimentConfidence: p.confidence?.sentiment,
+        summary: p.summary,
+      })),
+      null,
+      2
+    ),
+  });
+
+  try {
+    const text = await retryWithBackoff(
+      () =>
+        runCompletion(
+          options,
+          prompt,
+          PROMPT_TEMPLATES.combineChunks.system,
+          300,
+          CHUNK_REDUCE_SCHEMA
+        ),
+      config,
+      logCallback
+    );
+    const parsed = parseStructuredOutput<ReducedChunks>(text, CHUNK_REDUCE_SCHEMA);
+    if (!parsed.ok) {
+      throw new Error(parsed.error);
+    }
+    return parsed.value;
+  } catch (error: any) {
+    const fallbackMsg = `   ⚠️  Could not combine chunk analyses (${error.message}); merging them locally`;
+    console.log(fallbackMsg);
+    logCallback?.(fallbackMsg, "warning");
+    return mergeChunkResultsLocally(partials);
+  }
+}
+
+/**
+ * Categorizes one call. Transcripts longer than the model's chunk size are
+ * analyzed chunk by chunk and the results merged (map-reduce), unless
+ * `longTranscripts` is "truncate".
+ */
+export async function categorizeCall(
+  call: CallInput,
+  options: AnalysisOptions
+): Promise<CategorizationResult> {
+  const { logCallback } = options;
+  const plan = planTranscript(
+    call.transcript,
+    chunkCharsFor(options.modelConfig),
+    options.longTranscripts || "chunk"
+  );
+
+  if (plan.coverage === "truncated") {
+    const truncatedMsg = `   ✂️  Transcript (${call.transcript.length} characters) is too long; ${
+      plan.segments.length > 1
+        ? `only its first and last chunks (${plan.segments.length}) are analyzed`
+        : "only the first part is analyzed"
+    }, ${plan.droppedChars} characters skipped`;
+    console.log(truncatedMsg);
+    logCallback?.(truncatedMsg, "warning");
+  }
+
+  if (plan.segments.length === 1) {
+    const result = await analyzeTranscriptSegment(
+      call,
+      plan.segments[0],
+      null,
+      options
+    );
+    return { ...result, coverage: plan.coverage };
+  }
+
+  const chunkMsg = `   🧩 Splitting ${call.transcript.length}-character transcript into ${plan.segments.length} chunks`;
+  console.log(chunkMsg);
+  logCallback?.(chunkMsg, "info");
+
+  const partials: CategorizationResult[] = [];
+  for (let i = 0; i < plan.segments.length; i++) {
+    partials.push(
+      await analyzeTranscriptSegment(
+        call,
+        plan.segments[i],
+        { index: i + 1, total: plan.segments.length },
+        options
+      )
+    );
+  }
+
+  const analyzed = partials.filter((p) => p.sentiment !== "parse_failed");
+  if (analyzed.length === 0) {
+    return { ...partials[0], coverage: plan.coverage };
+  }
+
+  const merged = await reduceChunkResults(analyzed, options);
+  const otherSuggestions = analyzed
+    .flatMap((p) => p.otherSuggestions || [])
+    .filter((s, i, all) => all.indexOf(s) === i);
+  const categoryConfidence: Record<string, number> = {};
+  analyzed.forEach((p) =>
+    Object.entries(p.confidence?.categories || {}).forEach(([label, score]) => {
+      categoryConfidence[label] = Math.max(categoryConfidence[label] ?? 0, score);
+    })
+  );
+  const hasConfidence = analyzed.some((p) => p.confidence);
+  return {
+    categories: mergeChunkCategories(analyzed.map((p) => p.categories)),
+    sentiment: merged.sentiment,
+    summary: merged.summary,
+    ...(otherSuggestions.length > 0 ? { otherSuggestions } : {}),
+    ...(hasConfidence
+      ? {
+          confidence: {
+            categories: categoryConfidence,
+            sentiment: merged.sentimentConfidence,
+          },
+        }
+      : {}),
+    ...(merged.fallback || analyzed.length < partials.length
+      ? { fallback: true }
+      : {}),
+    coverage: plan.coverage,
+  };
+}
+
+function describeModel(config: ModelConfig): string {
+  return `${config.provider}/${config.model}`;
+}
+
+/**
+ * Categorizes one call with the first model of the fallback chain that
+ * answers. Rate limits and server errors that outlast the retries move on to
+ * the next model; other errors are thrown. Models in `exhaustedModels` are
+ * skipped, and models whose quota runs out are added to it so later calls
+ * don't wait on them again.
+ */
+export async function categorizeCallWithFallback(
+  call: CallInput,
+  options: AnalysisOptions,
+  exhaustedModels: Set<string> = new Set()
+): Promise<CategorizationResult> {
+  const { logCallback } = options;
+  const chain = [options.modelConfig].concat(options.fallbackModels || []);
+  const failed: ModelSwitch["failed"] = [];
+  let lastError: any;
+
+  for (let i = 0; i < chain.length; i++) {
+    const model = describeModel(chain[i]);
+    if (exhaustedModels.has(model)) {
+      failed.push({ model, error: "quota exhausted" });
+      continue;
+    }
+
+    try {
+      const result = await categorizeCall(call, { ...options, modelConfig: chain[i] });
+      return failed.length > 0
+        ? { ...result, modelSwitch: { failed, servedBy: model } }
+        : result;
+    } catch (error: any) {
+      if (!shouldFailOver(error)) throw error;
+      lastError = error;
+      if (isQuotaExhausted(error)) {
+        exhaustedModels.add(model);
       }
+      failed.push({ model, error: error.message || `HTTP ${error.status}` });
 
-      if (
-        !parsed.categories ||
-        !Array.isArray(parsed.categories) ||
-        parsed.categories.length === 0
-      ) {
-        parsed.categories = ["Unknown"];
+      const next = chain.slice(i + 1).find((c) => !exhaustedModels.has(describeModel(c)));
+      if (next) {
+        const switchMsg = `   🪂 ${model} failed (${error.message}); switching to ${describeModel(next)}`;
+        console.log(switchMsg);
+        logCallback?.(switchMsg, "warning");
       }
+    }
+  }
 
-      if (
-        !parsed.sentiment ||
-        !["positive", "neutral", "negative"].includes(parsed.sentiment)
-      ) {
-        parsed.sentiment = "neutral";
+  if (lastError) throw lastError;
+  const exhaustedError: any = new Error(
+    "Quota exceeded for every model in the fallback chain"
+  );
+  exhaustedError.status = 429;
+  throw exhaustedError;
+}
+
+/**
+ * Categorizes one call with the primary model and every ensemble model, then
+ * combines the answers by vote. Models that fail do not vote; the call only
+ * fails when none of them produced a result.
+ */
+export async function categorizeCallByConsensus(
+  call: CallInput,
+  options: AnalysisOptions
+): Promise<CategorizationResult> {
+  const { logCallback } = options;
+  const configs = [options.modelConfig].concat(options.ensembleModels || []);
+
+  const outcomes = await Promise.all(
+    configs.map(async (modelConfig): Promise<{
+      model: string;
+      result?: CategorizationResult;
+      error?: any;
+    }> => {
+      try {
+        return {
+          model: describeModel(modelConfig),
+          result: await categorizeCall(call, { ...options, modelConfig }),
+        };
+      } catch (error: any) {
+        const failedMsg = `   ⚠️  ${describeModel(modelConfig)} failed: ${error.message}`;
+        console.log(failedMsg);
+        logCallback?.(failedMsg, "warning");
+        return { model: describeModel(modelConfig), error };
       }
+    })
+  );
+
+  const members: EnsembleMember[] = [];
+  const failedModels: string[] = [];
+  outcomes.forEach(({ model, result }) => {
+    if (result && result.sentiment !== "parse_failed") {
+      members.push({ model, result });
+    } else {
+      failedModels.push(model);
+    }
+  });
+
+  if (members.length === 0) {
+    const answered = outcomes.find(({ result }) => result);
+    if (answered?.result) return answered.result;
+    throw outcomes[0].error;
+  }
+
+  const combined = combineEnsembleResults(members, failedModels);
+  if (!combined.ensemble.unanimous) {
+    const disagreeMsg = `   🗳️  Models disagree: ${members
+      .map((m) => `${m.model} → ${m.result.categories.join(", ")} (${m.result.sentiment})`)
+      .join("; ")}`;
+    console.log(disagreeMsg);
+    logCallback?.(disagreeMsg, "warning");
+  }
+  return combined;
+}
+
+/** Transcripts at or below this length are eligible for multi-call prompts. */
+const SHORT_TRANSCRIPT_CHARS = 1500;
+
+function isShortCall(call: CallInput): boolean {
+  return call.transcript.length <= SHORT_TRANSCRIPT_CHARS;
+}
+
+/**
+ * Categorizes several short calls in one request. Only entries that come back
+ * complete and with a known id are returned; the caller re-submits the rest.
+ */
+export async function categorizeCallGroup(
+  calls: Array<CallInput & { id: string }>,
+  options: AnalysisOptions
+): Promise<Record<string, CategorizationResult>> {
+  const { modelConfig: config, logCallback, taxonomy } = options;
+  const allowedNames = taxonomy ? allowedCategoryNames(taxonomy) : undefined;
+  const entrySchema = groupEntrySchema(allowedNames);
+
+  return retryWithBackoff(
+    async () => {
+      const logMsg = `🤖 Analyzing ${calls.length} calls in one request with ${config.provider}/${config.model}...`;
+      console.log(logMsg);
+      logCallback?.(logMsg, "info");
 
-      if (!parsed.summary || typeof parsed.summary !== "string") {
-        parsed.summary = "No summary available";
+      const callBlocks = calls
+        .map((call) =>
+          [
+            `Call ID: ${call.id}`,
+            call.callReason ? `Call Reason: ${call.callReason}` : "",
+            call.issuesDiscussed
+              ? `Issues Discussed: ${call.issuesDiscussed}`
+              : "",
+            `Transcript: ${call.transcript}`,
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+        .join("\n\n");
+
+      const prompt = renderPrompt("categorizeCallGroup", profileOf(options), {
+        ...categorizationVariables(taxonomy),
+        callCount: calls.length,
+        callBlocks,
+      });
+
+      const text = await runCompletion(
+        options,
+        prompt,
+        PROMPT_TEMPLATES.categorizeCallGroup.system,
+        200 * calls.length,
+        groupCategorizationSchema(allowedNames)
+      );
+
+      const parsed = parseStructuredOutput<{ results: any[] }>(
+        text,
+        GROUP_ENVELOPE_SCHEMA
+      );
+      if (!parsed.ok) {
+        const errorMsg = `❌ Invalid ${config.provider} response for grouped calls: ${parsed.error}`;
+        console.log(errorMsg);
+        logCallback?.(errorMsg, "error");
+        return {};
       }
 
-      const successMsg = `✅ Call analyzed: ${parsed.categories.length} categories, sentiment: ${parsed.sentiment}`;
+      const expectedIds = new Set(calls.map((call) => call.id));
+      const results: Record<string, CategorizationResult> = {};
+      parsed.value.results.forEach((raw: any) => {
+        const entry =
+          raw && typeof raw === "object" ? { ...raw, id: String(raw.id) } : raw;
+        const id = entry?.id || "";
+        if (
+          expectedIds.has(id) &&
+          !results[id] &&
+          validateSchema(entry, entrySchema).length === 0
+        ) {
+          results[id] = {
+            ...toCategorizationResult(entry, taxonomy),
+            coverage: "full",
+          };
+        }
+      });
+
+      const successMsg = `✅ Grouped request returned ${Object.keys(results).length}/${calls.length} valid results`;
       console.log(successMsg);
       logCallback?.(successMsg, "success");
 
-      return {
-        categories: parsed.categories,
-        sentiment: parsed.sentiment,
-        summary: parsed.summary,
-      };
+      return results;
     },
-    5,
-    0,
+    config,
     logCallback
   );
 }
 
+/** Prompt tokens a request spends on instructions and the system message. */
+const PROMPT_OVERHEAD_TOKENS = 550;
+/** Prompt tokens per call of a grouped request, on top of its transcript. */
+const GROUP_ENTRY_TOKENS = 25;
+/** Typical answer length for one call. */
+const COMPLETION_TOKENS_PER_CALL = 150;
+
+/**
+ * Pre-flight estimate of the tokens and cost of categorizing `calls`, from
+ * transcript lengths and the same chunking and grouping the batch would use.
+ * Cached results, retries and correction requests are not accounted for.
+ */
+export function estimateAnalysisUsage(
+  calls: CallInput[],
+  options: Pick<
+    AnalysisOptions,
+    "modelConfig" | "batchSize" | "longTranscripts" | "taxonomy" | "ensembleModels"
+  >
+): TokenUsage {
+  const ensembleModels = options.ensembleModels || [];
+  const batchSize =
+    ensembleModels.length > 0 ? 1 : Math.max(1, options.batchSize || 1);
+  const overhead =
+    PROMPT_OVERHEAD_TOKENS +
+    estimateTokens(categorizationVariables(options.taxonomy).taxonomySection);
+
+  return sumUsage(
+    [options.modelConfig].concat(ensembleModels).map((config) => {
+      let requests = 0;
+      let promptTokens = 0;
+      let completionTokens = 0;
+      const addRequest = (prompt: number, completion: number) => {
+        requests++;
+        promptTokens += prompt;
+        completionTokens += completion;
+      };
+
+      const grouped = batchSize > 1 ? calls.filter(isShortCall) : [];
+      for (let i = 0; i < grouped.length; i += batchSize) {
+        const group = grouped.slice(i, i + batchSize);
+        addRequest(
+          overhead +
+            group.reduce(
+              (sum, call) => sum + GROUP_ENTRY_TOKENS + estimateTokens(call.transcript),
+              0
+            ),
+          COMPLETION_TOKENS_PER_CALL * group.length
+        );
+      }
+
+      calls
+        .filter((call) => grouped.indexOf(call) === -1)
+        .forEach((call) => {
+          const plan = planTranscript(
+            call.transcript,
+            chunkCharsFor(config),
+            options.longTranscripts || "chunk"
+          );
+          plan.segments.forEach((segment) =>
+            addRequest(overhead + estimateTokens(segment), COMPLETION_TOKENS_PER_CALL)
+          );
+          if (plan.segments.length > 1) {
+            addRequest(
+              PROMPT_OVERHEAD_TOKENS + COMPLETION_TOKENS_PER_CALL * plan.segments.length,
+              COMPLETION_TOKENS_PER_CALL
+            );
+          }
+        });
+
+      return {
+        requests,
+        promptTokens,
+        completionTokens,
+        costUsd: usageCost(promptTokens, completionTokens, getModelPrice(config)),
+        estimated: true,
+      };
+    })
+  );
+}
+
 export async function batchCategorizeCallsWithProgress(
-  calls: Array<{
-    transcript: string;
-    callReason?: string;
-    issuesDiscussed?: string;
-  }>,
-  onProgress?: (current: number, total: number) => void,
-  logCallback?: LogCallback
+  calls: CallInput[],
+  options: AnalysisOptions,
+  onProgress?: (current: number, total: number) => void
 ): Promise<CategorizationResult[]> {
+  const { logCallback, modelConfig } = options;
+  const limits = findModel(modelConfig)?.limits || {};
+  const concurrency = Math.max(
+    1,
+    Math.min(options.concurrency || DEFAULT_CONCURRENCY, calls.length)
+  );
+
   const startMsg = "🚀 Starting batch categorization process...";
   console.log(startMsg);
   logCallback?.(startMsg, "info");
@@ -299,135 +957,349 @@ export async function batchCategorizeCallsWithProgress(
   console.log(totalMsg);
   logCallback?.(totalMsg, "info");
 
-  const timeMsg = `⏱️  Estimated time: ${((calls.length * 2.5) / 60).toFixed(
-    1
-  )} minutes (with rate limiting)`;
-  console.log(timeMsg);
-  logCallback?.(timeMsg, "info");
+  const results: CategorizationResult[] = new Array(calls.length);
+  const cacheMode = options.cacheMode || "use";
+  const ensembleModels = options.ensembleModels || [];
+  const profile = profileOf(options);
+  const promptVersion = `${JSON.stringify(templateVersions(CATEGORIZATION_TEMPLATES))}:${
+    profile.businessDescription
+  }:${profile.language}:${
+    options.longTranscripts || "chunk"
+  }${options.taxonomy ? `:${JSON.stringify(options.taxonomy)}` : ""}${
+    ensembleModels.length > 0
+      ? `:ensemble=${ensembleModels.map(describeModel).join(",")}`
+      : ""
+  }`;
+  const cacheKeys = calls.map((call) =>
+    resultCacheKey(call, modelConfig, promptVersion)
+  );
+  const cacheWrites: Promise<void>[] = [];
+  let cacheHits = 0;
 
-  const results: CategorizationResult[] = [];
-  const startTime = Date.now();
-  const delayBetweenCalls = 2500;
+  if (cacheMode === "use") {
+    const cached = await Promise.all(
+      cacheKeys.map((key) => readCachedResult<CategorizationResult>(key))
+    );
+    cached.forEach((entry, i) => {
+      if (entry) {
+        results[i] = { ...entry, cached: true };
+        cacheHits++;
+      }
+    });
+  }
 
-  for (let i = 0; i < calls.length; i++) {
-    const call = calls[i];
-    const callStartTime = Date.now();
+  const cacheMsg =
+    cacheMode === "bypass"
+      ? "💾 Result cache bypassed"
+      : `💾 Cache: ${cacheHits} hit(s), ${calls.length - cacheHits} miss(es)${
+          cacheMode === "refresh" ? " (refreshing all entries)" : ""
+        }`;
+  console.log(cacheMsg);
+  logCallback?.(cacheMsg, "info");
+
+  if (ensembleModels.length > 0) {
+    const ensembleMsg = `🗳️  Consensus mode: every call is analyzed by ${[modelConfig]
+      .concat(ensembleModels)
+      .map(describeModel)
+      .join(", ")}`;
+    console.log(ensembleMsg);
+    logCallback?.(ensembleMsg, "info");
+  }
 
-    const progressMsg = `📞 Processing call ${i + 1}/${calls.length} (${(
-      (i / calls.length) *
-      100
-    ).toFixed(1)}%)`;
-    console.log(`\n${progressMsg}`);
-    logCallback?.(progressMsg, "progress");
+  const fallbackModels = ensembleModels.length > 0 ? [] : options.fallbackModels || [];
+  if (fallbackModels.length > 0) {
+    const chainMsg = `🪂 Fallback chain: ${[modelConfig]
+      .concat(fallbackModels)
+      .map(describeModel)
+      .join(" → ")}`;
+    console.log(chainMsg);
+    logCallback?.(chainMsg, "info");
+  }
+  const modelChain = [modelConfig].concat(fallbackModels);
+  const exhaustedModels = new Set<string>();
+
+  /** Options for grouped requests: the first model whose quota is not used up. */
+  const activeModelOptions = (): AnalysisOptions => {
+    const active = modelChain.find((c) => !exhaustedModels.has(describeModel(c)));
+    return active && active !== modelConfig ? { ...options, modelConfig: active } : options;
+  };
+
+  const batchSize =
+    ensembleModels.length > 0 ? 1 : Math.max(1, options.batchSize || 1);
+  const workItems: number[][] = [];
+  let pendingGroup: number[] = [];
+  calls.forEach((call, i) => {
+    if (results[i]) return;
+    if (batchSize > 1 && isShortCall(call)) {
+      pendingGroup.push(i);
+      if (pendingGroup.length === batchSize) {
+        workItems.push(pendingGroup);
+        pendingGroup = [];
+      }
+    } else {
+      workItems.push([i]);
+    }
+  });
+  if (pendingGroup.length > 0) {
+    workItems.push(pendingGroup);
+  }
 
-    try {
-      const result = await categorizeCall(
-        call.transcript,
-        call.callReason,
-        call.issuesDiscussed,
-        logCallback
-      );
-      results.push(result);
+  if (batchSize > 1) {
+    const groupMsg = `📦 Packing up to ${batchSize} short calls per request: ${workItems.length} request(s) for ${calls.length} calls`;
+    console.log(groupMsg);
+    logCallback?.(groupMsg, "info");
+  }
 
-      const callDuration = ((Date.now() - callStartTime) / 1000).toFixed(2);
-      const processedMsg = `   ✅ Call ${i + 1} processed in ${callDuration}s`;
-      console.log(processedMsg);
-      logCallback?.(processedMsg, "success");
+  const limitsMsg = `⚙️  Running up to ${concurrency} request(s) concurrently within ${
+    limits.requestsPerMinute
+      ? `${limits.requestsPerMinute} requests/min`
+      : "no request limit"
+  }${
+    limits.tokensPerMinute ? ` and ${limits.tokensPerMinute} tokens/min` : ""
+  }`;
+  console.log(limitsMsg);
+  logCallback?.(limitsMsg, "info");
+
+  if (limits.requestsPerMinute) {
+    const timeMsg = `⏱️  Estimated time: ${(
+      workItems.length / limits.requestsPerMinute
+    ).toFixed(1)} minutes (with rate limiting)`;
+    console.log(timeMsg);
+    logCallback?.(timeMsg, "info");
+  }
 
-      const categoriesMsg = `   📋 Categories: ${result.categories.join(", ")}`;
-      console.log(categoriesMsg);
-      logCallback?.(categoriesMsg, "info");
+  if (limits.requestsPerDay && workItems.length > limits.requestsPerDay) {
+    const dailyMsg = `⚠️  ${workItems.length} requests exceeds the model's daily limit of ${limits.requestsPerDay}`;
+    console.log(dailyMsg);
+    logCallback?.(dailyMsg, "warning");
+  }
 
-      const sentimentMsg = `   😊 Sentiment: ${result.sentiment}`;
-      console.log(sentimentMsg);
-      logCallback?.(sentimentMsg, "info");
+  const startTime = Date.now();
+  let completed = cacheHits;
+  if (cacheHits > 0) {
+    onProgress?.(completed, calls.length);
+  }
+  let criticalError: Error | null = null;
 
-      if (onProgress) {
-        onProgress(i + 1, calls.length);
-      }
+  const markCompleted = () => {
+    completed++;
+    onProgress?.(completed, calls.length);
 
+    if (completed < calls.length) {
       const elapsed = (Date.now() - startTime) / 1000;
-      const avgTimePerCall = elapsed / (i + 1);
-      const remainingCalls = calls.length - (i + 1);
-      const estimatedTimeRemaining = (avgTimePerCall * remainingCalls) / 60;
-
-      if (i < calls.length - 1) {
-        const waitMsg = `   ⏳ Waiting 2.5s before next call...`;
-        console.log(waitMsg);
-        logCallback?.(waitMsg, "info");
-
-        const progressStatMsg = `   📊 Progress: ${i + 1}/${
-          calls.length
-        } completed`;
-        console.log(progressStatMsg);
-        logCallback?.(progressStatMsg, "info");
-
-        const timeRemainingMsg = `   ⏱️  Estimated time remaining: ${estimatedTimeRemaining.toFixed(
-          1
-        )} minutes`;
-        console.log(timeRemainingMsg);
-        logCallback?.(timeRemainingMsg, "info");
-      }
+      const estimatedTimeRemaining =
+        ((elapsed / (completed - cacheHits)) * (calls.length - completed)) /
+        60;
+      const progressStatMsg = `   📊 Progress: ${completed}/${
+        calls.length
+      } completed (${((completed / calls.length) * 100).toFixed(
+        1
+      )}%), ~${estimatedTimeRemaining.toFixed(1)} minutes remaining`;
+      console.log(progressStatMsg);
+      logCallback?.(progressStatMsg, "info");
+    }
+  };
+
+  const recordResult = (
+    i: number,
+    result: CategorizationResult,
+    callStartTime: number,
+    usage: TokenUsage
+  ) => {
+    results[i] = { ...result, durationMs: Date.now() - callStartTime, usage };
+    // Cache keys name the primary model, so answers from fallback models are not cached.
+    if (
+      cacheMode !== "bypass" &&
+      result.sentiment !== "parse_failed" &&
+      !result.modelSwitch
+    ) {
+      cacheWrites.push(writeCachedResult(cacheKeys[i], result));
+    }
 
-      if (i < calls.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, delayBetweenCalls));
-      }
-    } catch (error: any) {
-      const errorMsg = `   ❌ Error processing call ${i + 1}: ${error.message}`;
-      console.log(errorMsg);
-      logCallback?.(errorMsg, "error");
+    const callDuration = ((Date.now() - callStartTime) / 1000).toFixed(2);
+    const processedMsg = `   ✅ Call ${i + 1} processed in ${callDuration}s${
+      result.modelSwitch ? ` by fallback model ${result.modelSwitch.servedBy}` : ""
+    }`;
+    console.log(processedMsg);
+    logCallback?.(processedMsg, "success");
+
+    const categoriesMsg = `   📋 Call ${i + 1} categories: ${result.categories.join(", ")}`;
+    console.log(categoriesMsg);
+    logCallback?.(categoriesMsg, "info");
+
+    const sentimentMsg = `   😊 Call ${i + 1} sentiment: ${result.sentiment}`;
+    console.log(sentimentMsg);
+    logCallback?.(sentimentMsg, "info");
+
+    markCompleted();
+  };
+
+  const recordFailure = (i: number, error: any, usage: TokenUsage) => {
+    const errorMsg = `   ❌ Error processing call ${i + 1}: ${error.message}`;
+    console.log(errorMsg);
+    logCallback?.(errorMsg, "error");
+
+    const fallbackMsg = `   💡 Using fallback categorization for this call...`;
+    console.log(fallbackMsg);
+    logCallback?.(fallbackMsg, "warning");
+
+    results[i] = {
+      categories: ["UNCATEGORIZED - API ERROR"],
+      sentiment: "neutral",
+      summary: `Failed to analyze: ${error.message || "Unknown error"}`,
+      fallback: true,
+      usage,
+    };
+
+    const uncategorizedMsg = `   ⚠️  Call ${
+      i + 1
+    } marked as uncategorized due to error`;
+    console.log(uncategorizedMsg);
+    logCallback?.(uncategorizedMsg, "warning");
+
+    if (isQuotaExhausted(error)) {
+      criticalError = error;
+    }
 
-      const fallbackMsg = `   💡 Using fallback categorization for this call...`;
-      console.log(fallbackMsg);
-      logCallback?.(fallbackMsg, "warning");
-      
-      const fallbackResult: CategorizationResult = {
-        categories: ["UNCATEGORIZED - API ERROR"],
-        sentiment: "neutral",
-        summary: `Failed to analyze: ${error.message || "Unknown error"}`,
-      };
+    markCompleted();
+  };
+
+  /** Options that also collect the usage of every request into `entries`. */
+  const trackingUsage = (
+    base: AnalysisOptions,
+    entries: CompletionUsage[]
+  ): AnalysisOptions => ({
+    ...base,
+    onUsage: (usage) => {
+      entries.push(usage);
+      options.onUsage?.(usage);
+    },
+  });
 
-      results.push(fallbackResult);
-      const uncategorizedMsg = `   ⚠️  Call ${
-        i + 1
-      } marked as uncategorized due to error`;
-      console.log(uncategorizedMsg);
-      logCallback?.(uncategorizedMsg, "warning");
+  /** `carriedUsage` is the call's share of a grouped request that did not answer it. */
+  const processCall = async (i: number, carriedUsage?: TokenUsage) => {
+    const callStartTime = Date.now();
 
-      if (onProgress) {
-        onProgress(i + 1, calls.length);
-      }
+    const progressMsg = `📞 Processing call ${i + 1}/${calls.length}`;
+    console.log(`\n${progressMsg}`);
+    logCallback?.(progressMsg, "progress");
 
-      if (error?.status === 429 && error.message?.includes("exceeded")) {
-        const criticalMsg = `\n❌ Critical rate limit error. Stopping batch processing.`;
-        console.log(criticalMsg);
-        logCallback?.(criticalMsg, "error");
+    const usageEntries: CompletionUsage[] = [];
+    const callOptions = trackingUsage(options, usageEntries);
+    const callUsage = () => sumUsage([carriedUsage, toTokenUsage(usageEntries)]);
+    try {
+      const result =
+        ensembleModels.length > 0
+          ? await categorizeCallByConsensus(calls[i], callOptions)
+          : await categorizeCallWithFallback(calls[i], callOptions, exhaustedModels);
+      recordResult(i, result, callStartTime, callUsage());
+    } catch (error: any) {
+      recordFailure(i, error, callUsage());
+    }
+  };
 
-        const processedBeforeMsg = `   Successfully processed ${results.length} calls before error.`;
-        console.log(processedBeforeMsg);
-        logCallback?.(processedBeforeMsg, "info");
+  const processGroup = async (group: number[]) => {
+    const groupStartTime = Date.now();
+    const progressMsg = `📞 Processing calls ${group
+      .map((i) => i + 1)
+      .join(", ")} in one request`;
+    console.log(`\n${progressMsg}`);
+    logCallback?.(progressMsg, "progress");
 
-        throw new Error(
-          `Rate limit exceeded after retries. Processed ${results.length}/${
-            calls.length
-          } calls. ${error.message || ""}`
-        );
+    const groupOptions = activeModelOptions();
+    const usageEntries: CompletionUsage[] = [];
+    let grouped: Record<string, CategorizationResult> = {};
+    try {
+      grouped = await categorizeCallGroup(
+        group.map((i) => ({ ...calls[i], id: String(i + 1) })),
+        trackingUsage(groupOptions, usageEntries)
+      );
+    } catch (error: any) {
+      const groupErrorMsg = `   ⚠️  Grouped request failed: ${error.message}`;
+      console.log(groupErrorMsg);
+      logCallback?.(groupErrorMsg, "warning");
+      if (isQuotaExhausted(error)) {
+        exhaustedModels.add(describeModel(groupOptions.modelConfig));
       }
+    }
+    if (groupOptions !== options) {
+      const modelSwitch: ModelSwitch = {
+        failed: modelChain
+          .slice(0, modelChain.indexOf(groupOptions.modelConfig))
+          .map((c) => ({ model: describeModel(c), error: "quota exhausted" })),
+        servedBy: describeModel(groupOptions.modelConfig),
+      };
+      Object.keys(grouped).forEach((id) => {
+        grouped[id] = { ...grouped[id], modelSwitch };
+      });
+    }
 
-      if (i < calls.length - 1) {
-        const waitMsg = `   ⏳ Waiting 10s before continuing to next call...`;
-        console.log(waitMsg);
-        logCallback?.(waitMsg, "info");
-        await new Promise((resolve) => setTimeout(resolve, 10000));
+    const shares = splitUsage(toTokenUsage(usageEntries), group.length);
+    const missing = group.filter((i) => !grouped[String(i + 1)]);
+    group.forEach((i, n) => {
+      if (grouped[String(i + 1)]) {
+        recordResult(i, grouped[String(i + 1)], groupStartTime, shares[n]);
+      }
+    });
+
+    if (missing.length > 0) {
+      const resubmitMsg = `   🔁 Re-submitting ${missing.length} missing or malformed call(s) individually`;
+      console.log(resubmitMsg);
+      logCallback?.(resubmitMsg, "warning");
+      for (const i of missing) {
+        if (criticalError) break;
+        await processCall(i, shares[group.indexOf(i)]);
       }
     }
+  };
+
+  let nextItem = 0;
+  const worker = async () => {
+    while (!criticalError && nextItem < workItems.length) {
+      const item = workItems[nextItem++];
+      if (item.length === 1) {
+        await processCall(item[0]);
+      } else {
+        await processGroup(item);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, workItems.length) }, () =>
+      worker()
+    )
+  );
+
+  if (criticalError) {
+    const error: any = criticalError;
+    const criticalMsg = `\n❌ Critical rate limit error. Stopping batch processing.`;
+    console.log(criticalMsg);
+    logCallback?.(criticalMsg, "error");
+
+    const processedBeforeMsg = `   Successfully processed ${completed} calls before error.`;
+    console.log(processedBeforeMsg);
+    logCallback?.(processedBeforeMsg, "info");
+
+    throw new Error(
+      `Rate limit exceeded after retries. Processed ${completed}/${
+        calls.length
+      } calls. ${error.message || ""}`
+    );
   }
 
+  await Promise.all(cacheWrites);
+
   const totalTime = ((Date.now() - startTime) / 60000).toFixed(2);
+  const parseFailedCount = results.filter(
+    (r) => r.sentiment === "parse_failed"
+  ).length;
   const successCount = results.filter(
-    (r) => !r.categories.includes("UNCATEGORIZED - API ERROR")
+    (r) =>
+      r.sentiment !== "parse_failed" &&
+      !r.categories.includes("UNCATEGORIZED - API ERROR")
   ).length;
-  const failureCount = results.length - successCount;
+  const failureCount = results.length - successCount - parseFailedCount;
 
   const completeMsg = `\n🎉 Batch processing complete!`;
   console.log(completeMsg);
@@ -443,18 +1315,52 @@ export async function batchCategorizeCallsWithProgress(
     logCallback?.(failureMsg, "warning");
   }
 
+  if (parseFailedCount > 0) {
+    const parseFailedMsg = `⚠️  ${parseFailedCount} call(s) returned invalid output even after a correction request and were flagged as parse_failed`;
+    console.log(parseFailedMsg);
+    logCallback?.(parseFailedMsg, "warning");
+  }
+
   const totalTimeMsg = `⏱️  Total time: ${totalTime} minutes`;
   console.log(totalTimeMsg);
   logCallback?.(totalTimeMsg, "info");
 
+  const usage = sumUsage(results.map((r) => r.usage));
+  if (usage.requests > 0) {
+    const usageMsg = `💰 Tokens: ${formatTokens(usage.promptTokens)} prompt + ${formatTokens(
+      usage.completionTokens
+    )} completion over ${usage.requests} request(s), estimated cost ${formatCost(usage.costUsd)}${
+      usage.estimated ? " (token counts partly estimated)" : ""
+    }`;
+    console.log(usageMsg);
+    logCallback?.(usageMsg, "info");
+  }
+
   return results;
 }
 
+/** Reports use the profile the calls were analyzed with unless one is passed. */
+function reportProfile(data: AnalysisData, options: AnalysisOptions): PromptProfile {
+  return options.profile || data.promptVersion?.profile || DEFAULT_PROMPT_PROFILE;
+}
+
+function reportStatistics(data: AnalysisData): Record<string, string | number> {
+  return {
+    totalCalls: data.totalCalls,
+    totalDurationSeconds: Math.round(data.summary?.totalDuration),
+    totalDurationHours: (data.summary?.totalDuration / 3600).toFixed(1),
+    avgDurationSeconds: Math.round(data.summary?.avgDuration),
+    positive: data.summary?.sentimentDistribution.positive,
+    neutral: data.summary?.sentimentDistribution.neutral,
+    negative: data.summary?.sentimentDistribution.negative,
+  };
+}
+
 export async function generateReportWithGemini(
   data: AnalysisData,
-  logCallback?: LogCallback
+  options: AnalysisOptions
 ): Promise<string> {
-  const config = getModelConfig();
+  const { modelConfig: config, logCallback } = options;
   const reportStartMsg = `📝 Generating comprehensive report with ${config.provider}/${config.model}...`;
   const reportDataMsg = `📊 Report data: ${data.totalCalls} calls, ${data.categories.length} categories`;
   console.log(`\n${reportStartMsg}`);
@@ -485,59 +1391,19 @@ export async function generateReportWithGemini(
           (call.transcript.length > 200 ? "..." : ""),
       }));
 
-      const prompt = `You are an AI assistant generating a comprehensive analysis report for customer service call data from an automotive service center.
-
-Based on the following categorized call data and statistics, generate a detailed, professional plain text report (approximately 8 pages when formatted).
-
-The report should include:
-1. Executive Summary - High-level overview of the analysis
-2. Overall Statistics - Total calls, unique customers, duration metrics
-3. Sentiment Analysis - Distribution and insights on customer sentiment
-4. Category Analysis - Detailed breakdown of all categories with insights, trends, and patterns
-5. Key Findings - Important observations and patterns discovered
-6. Recommendations - Actionable insights based on the data
-7. Detailed Category Breakdown - For each category, provide count, percentage, customer impact, and sentiment distribution
-8. Sample Call Insights - Analysis of representative calls
-
-Data Summary:
-- Total Calls: ${data.totalCalls}
-- Total Duration: ${Math.round(data.summary?.totalDuration)} seconds (${(
-        data.summary?.totalDuration / 3600
-      ).toFixed(1)} hours)
-- Average Call Duration: ${Math.round(data.summary?.avgDuration)} seconds
-- Sentiment Distribution: Positive: ${
-        data.summary?.sentimentDistribution.positive
-      }, Neutral: ${data.summary?.sentimentDistribution.neutral}, Negative: ${
-        data.summary?.sentimentDistribution.negative
-      }
-
-Category Statistics:
-${JSON.stringify(categorySummary, null, 2)}
-
-Sample Calls:
-${JSON.stringify(sampleCalls, null, 2)}
-
-Generate a comprehensive, well-structured plain text report. The report should be detailed, insightful, and professional. Focus on actionable insights and patterns in the data.`;
+      const prompt = renderPrompt("detailedReport", reportProfile(data, options), {
+        ...reportStatistics(data),
+        categoryStatistics: JSON.stringify(categorySummary, null, 2),
+        sampleCalls: JSON.stringify(sampleCalls, null, 2),
+      });
 
       const reportStartTime = Date.now();
-      let report: string;
-
-      if (config.provider === "gemini") {
-        report = await callGeminiAPI(prompt, config.model);
-      } else {
-        const messages = [
-          {
-            role: "system",
-            content:
-              "You are a professional business analyst that generates comprehensive reports. Always provide detailed, well-structured reports.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ];
-        report = await callGroqAPI(messages, config.model);
-      }
+      const report = await runCompletion(
+        options,
+        prompt,
+        PROMPT_TEMPLATES.detailedReport.system,
+        4000
+      );
 
       const reportTime = ((Date.now() - reportStartTime) / 1000).toFixed(2);
       const reportTimeMsg = `✅ Report generated in ${reportTime}s`;
@@ -556,17 +1422,16 @@ Generate a comprehensive, well-structured plain text report. The report should b
 
       return report;
     },
-    5,
-    0,
+    config,
     logCallback
   );
 }
 
 export async function generateSummarizedReport(
   data: AnalysisData,
-  logCallback?: LogCallback
+  options: AnalysisOptions
 ): Promise<string> {
-  const config = getModelConfig();
+  const { modelConfig: config, logCallback } = options;
   const reportStartMsg = `📝 Generating summarized executive report with ${config.provider}/${config.model}...`;
   const reportDataMsg = `📊 Report data: ${data.totalCalls} calls, ${data.categories.length} categories`;
   console.log(`\n${reportStartMsg}`);
@@ -618,68 +1483,31 @@ export async function generateSummarizedReport(
         100
       ).toFixed(1);
 
-      const prompt = `You are an AI assistant generating an executive detailed summary report of about 8-10 pages for customer service call data from an automotive service center. Generate a professional, actionable report in plain text format similar to the following structure:
-
-REPORT STRUCTURE:
-1. Title: "Call Analysis: Executive Summary & Key Findings"
-2. Executive Summary - High-level overview explaining what the data reveals about customer needs, operational gaps, and opportunities
-3. Key Observations & Opportunities for Improvement - Numbered sections (1-4) with bullet points identifying:
-   - Quality Assurance & Service Consistency issues
-   - Inventory Alignment & Customer Demand gaps
-   - Data and Process Efficiency problems
-   - Customer Communication & AI Support Opportunities
-4. High-Value Missed Revenue Opportunities - Document specific products/services customers are requesting but not receiving
-5. Actionable Recommendations - Numbered list of specific operational improvements
-6. Proposed AI Enhancements - Suggestions for improving AI service advisor capabilities
-
-IMPORTANT STYLE GUIDELINES:
-- Use clear, professional language
-- Focus on actionable insights and business value
-- Identify specific patterns, gaps, and opportunities from the data
-- Provide concrete examples from the call data
-- Use bullet points (•) for sub-items
-- Keep the tone analytical and supportive (not critical of individual performance)
-- Make recommendations specific and implementable
-
-DATA TO ANALYZE:
-Total Calls: ${data.totalCalls}
-Total Duration: ${Math.round(data.summary.totalDuration)} seconds (${(
-        data.summary.totalDuration / 3600
-      ).toFixed(1)} hours)
-Average Call Duration: ${Math.round(data.summary.avgDuration)} seconds
-
-Sentiment Distribution:
-- Positive: ${data.summary.sentimentDistribution.positive} (${positivePct}%)
-- Neutral: ${data.summary.sentimentDistribution.neutral} (${neutralPct}%)
-- Negative: ${data.summary.sentimentDistribution.negative} (${negativePct}%)
-
-Top Categories:
-${JSON.stringify(topCategories, null, 2)}
-
-Sample Calls with Transcripts:
-${JSON.stringify(sampleCalls, null, 2)}
-
-Generate a comprehensive executive summary report that identifies key patterns, operational gaps, missed revenue opportunities, and provides actionable recommendations. The report should be detailed enough to be useful for decision-making but focused on insights and recommendations.`;
+      const reviewNote = data.reviewStats
+        ? `\nHuman Review: ${data.reviewStats.reviewedCalls} calls were reviewed and ${
+            data.reviewStats.overriddenCalls
+          } had their AI labels overridden (${(
+            data.reviewStats.disagreementRate * 100
+          ).toFixed(1)}% AI-human disagreement). The figures above use the reviewers' labels.\n`
+        : "";
+
+      const prompt = renderPrompt("summaryReport", reportProfile(data, options), {
+        ...reportStatistics(data),
+        positivePct,
+        neutralPct,
+        negativePct,
+        categoryStatistics: JSON.stringify(topCategories, null, 2),
+        reviewNote,
+        sampleCalls: JSON.stringify(sampleCalls, null, 2),
+      });
 
       const reportStartTime = Date.now();
-      let report: string;
-
-      if (config.provider === "gemini") {
-        report = await callGeminiAPI(prompt, config.model);
-      } else {
-        const messages = [
-          {
-            role: "system",
-            content:
-              "You are a professional business analyst that generates executive summary reports. Always provide detailed, actionable reports with clear structure.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ];
-        report = await callGroqAPI(messages, config.model);
-      }
+      const report = await runCompletion(
+        options,
+        prompt,
+        PROMPT_TEMPLATES.summaryReport.system,
+        4000
+      );
 
       const reportTime = ((Date.now() - reportStartTime) / 1000).toFixed(2);
       const reportTimeMsg = `✅ Summarized report generated in ${reportTime}s`;
@@ -698,8 +1526,7 @@ Generate a comprehensive executive summary report that identifies key patterns,
 
       return report;
     },
-    5,
-    0,
+    config,
     logCallback
   );
 }
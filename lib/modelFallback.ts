@@ -0,0 +1,26 @@
+import { ModelSwitch } from "@/types";
+
+/**
+ * Decides when a call moves on to the next model of the fallback chain and
+ * describes the switch for the dashboard and exports. Safe to import from
+ * client components.
+ */
+
+/** Fallback models after the primary; the upload screen offers this many. */
+export const MAX_FALLBACK_MODELS = 3;
+
+/** A 429 whose message says the quota (usually daily) is used up; retrying the same model is pointless. */
+export function isQuotaExhausted(error: any): boolean {
+  return error?.status === 429 && !!error.message?.includes("exceeded");
+}
+
+/** Rate limits and server errors that survived the retries move the call to the next model. */
+export function shouldFailOver(error: any): boolean {
+  return error?.status === 429 || (error?.status >= 500 && error?.status < 600);
+}
+
+export function describeModelSwitch(modelSwitch: ModelSwitch): string {
+  return `${modelSwitch.servedBy} (after ${modelSwitch.failed
+    .map((f) => `${f.model}: ${f.error}`)
+    .join("; ")})`;
+}
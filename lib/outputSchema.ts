@@ -0,0 +1,232 @@
+/**
+ * Declared shapes of the JSON the model must return. The same schema is sent
+ * to providers with a native structured-output mode and used to validate the
+ * response locally, so both sides agree on what a valid answer is.
+ */
+
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  /**
+   * Values outside `enum` still validate: the enum only guides providers with a
+   * native structured-output mode, and the caller maps other values itself.
+   */
+  openEnum?: boolean;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+const SENTIMENT_SCHEMA: JsonSchema = {
+  type: "string",
+  enum: ["positive", "neutral", "negative"],
+};
+
+const CONFIDENCE_SCHEMA: JsonSchema = {
+  type: "number",
+  minimum: 0,
+  maximum: 1,
+};
+
+function categorizationProperties(
+  allowedCategories?: string[]
+): Record<string, JsonSchema> {
+  return {
+    categories: {
+      type: "array",
+      items: allowedCategories
+        ? { type: "string", minLength: 1, enum: allowedCategories, openEnum: true }
+        : { type: "string", minLength: 1 },
+      minItems: 1,
+    },
+    categoryConfidence: {
+      type: "array",
+      description: "Confidence (0-1) for each category, in the same order",
+      items: CONFIDENCE_SCHEMA,
+    },
+    sentiment: SENTIMENT_SCHEMA,
+    sentimentConfidence: {
+      ...CONFIDENCE_SCHEMA,
+      description: "Confidence (0-1) in the sentiment",
+    },
+    summary: { type: "string", minLength: 1 },
+    ...(allowedCategories
+      ? {
+          otherSuggestion: {
+            type: "string",
+            description: "Proposed category name when OTHER is used",
+          } as JsonSchema,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Single-call output. Pass the taxonomy's names to offer them to the model;
+ * labels off the list are left for `applyTaxonomy` to map.
+ */
+export function categorizationSchema(allowedCategories?: string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: categorizationProperties(allowedCategories),
+    required: ["categories", "sentiment", "summary"],
+  };
+}
+
+export function groupEntrySchema(allowedCategories?: string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      id: { type: "string", minLength: 1 },
+      ...categorizationProperties(allowedCategories),
+    },
+    required: ["id", "categories", "sentiment", "summary"],
+  };
+}
+
+/** Multi-call prompts wrap their array in an object because JSON modes require one. */
+export function groupCategorizationSchema(
+  allowedCategories?: string[]
+): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      results: { type: "array", items: groupEntrySchema(allowedCategories) },
+    },
+    required: ["results"],
+  };
+}
+
+/**
+ * Envelope check for grouped responses. Entries are validated one by one so a
+ * single malformed call does not discard the rest of the group.
+ */
+export const GROUP_ENVELOPE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    results: { type: "array" },
+  },
+  required: ["results"],
+};
+
+export const CHUNK_REDUCE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    sentiment: SENTIMENT_SCHEMA,
+    sentimentConfidence: CONFIDENCE_SCHEMA,
+    summary: { type: "string" },
+  },
+  required: ["sentiment", "summary"],
+};
+
+/** Returns one message per violation; an empty list means the value is valid. */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return [`${path} must be a string`];
+      }
+      if (schema.minLength && value.trim().length < schema.minLength) {
+        return [`${path} must not be empty`];
+      }
+      if (schema.enum && !schema.openEnum && !schema.enum.includes(value)) {
+        return [`${path} must be one of: ${schema.enum.join(", ")}`];
+      }
+      return [];
+
+    case "number":
+      if (typeof value !== "number" || !isFinite(value)) {
+        return [`${path} must be a number`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${path} must be at least ${schema.minimum}`];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${path} must be at most ${schema.maximum}`];
+      }
+      return [];
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      const errors: string[] = [];
+      if (schema.minItems && value.length < schema.minItems) {
+        errors.push(`${path} must contain at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        const itemSchema = schema.items;
+        value.forEach((item, i) => {
+          errors.push(...validateSchema(item, itemSchema, `${path}[${i}]`));
+        });
+      }
+      return errors;
+    }
+
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      (schema.required || []).forEach((key) => {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+        if (record[key] !== undefined) {
+          errors.push(...validateSchema(record[key], propSchema, `${path}.${key}`));
+        }
+      });
+      return errors;
+    }
+  }
+}
+
+export type StructuredParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/**
+ * Extracts the JSON value from a model response (tolerating code fences and
+ * surrounding prose) and validates it against `schema`.
+ */
+export function parseStructuredOutput<T>(
+  text: string,
+  schema: JsonSchema
+): StructuredParseResult<T> {
+  const cleaned = text
+    .trim()
+    .replace(/```json\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+  const jsonMatch = cleaned.match(
+    schema.type === "array" ? /\[[\s\S]*\]/ : /\{[\s\S]*\}/
+  );
+  if (!jsonMatch) {
+    return { ok: false, error: "The response did not contain a JSON value." };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(jsonMatch[0]);
+  } catch (error: any) {
+    return { ok: false, error: `The response is not valid JSON: ${error.message}` };
+  }
+
+  const errors = validateSchema(value, schema);
+  if (errors.length > 0) {
+    return { ok: false, error: errors.slice(0, 5).join("; ") };
+  }
+  return { ok: true, value: value as T };
+}
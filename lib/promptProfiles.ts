@@ -0,0 +1,112 @@
+import { PromptProfile } from "@/types";
+
+/**
+ * Built-in business profiles for the prompt templates. Safe to import from
+ * client components.
+ */
+
+const DEFAULT_TONE = "analytical and supportive (not critical of individual performance)";
+
+export const PROMPT_PROFILES: PromptProfile[] = [
+  {
+    id: "automotive",
+    label: "Automotive service center",
+    businessDescription: "an automotive service center",
+    tone: DEFAULT_TONE,
+    language: "English",
+  },
+  {
+    id: "dental",
+    label: "Dental practice",
+    businessDescription: "a dental practice",
+    tone: DEFAULT_TONE,
+    language: "English",
+  },
+  {
+    id: "hvac",
+    label: "HVAC services",
+    businessDescription: "an HVAC (heating, ventilation and air conditioning) service company",
+    tone: DEFAULT_TONE,
+    language: "English",
+  },
+  {
+    id: "insurance",
+    label: "Insurance agency",
+    businessDescription: "an insurance agency",
+    tone: DEFAULT_TONE,
+    language: "English",
+  },
+  {
+    id: "general",
+    label: "General customer service",
+    businessDescription: "a customer service team",
+    tone: DEFAULT_TONE,
+    language: "English",
+  },
+];
+
+export const DEFAULT_PROMPT_PROFILE = PROMPT_PROFILES[0];
+
+export const CUSTOM_PROFILE_ID = "custom";
+
+const MAX_FIELD_LENGTHS: Record<"businessDescription" | "tone" | "language", number> = {
+  businessDescription: 300,
+  tone: 200,
+  language: 50,
+};
+
+export function findPromptProfile(id: string): PromptProfile | undefined {
+  return PROMPT_PROFILES.find((profile) => profile.id === id);
+}
+
+/**
+ * Parses a profile sent with an analysis request: either a built-in profile id
+ * or a JSON object. Missing fields are taken from the built-in profile named
+ * by `id` (or the default profile). Throws with a user-facing message when a
+ * field is empty or too long.
+ */
+export function parsePromptProfile(input: string): PromptProfile {
+  const text = input.trim();
+  if (!text.startsWith("{")) {
+    const builtIn = findPromptProfile(text);
+    if (!builtIn) {
+      throw new Error(
+        `Unknown profile "${text}". Available profiles: ${PROMPT_PROFILES.map((p) => p.id).join(", ")}`
+      );
+    }
+    return builtIn;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Profile is not valid JSON: ${error.message}`);
+  }
+  const fields = Object.keys(MAX_FIELD_LENGTHS) as Array<keyof typeof MAX_FIELD_LENGTHS>;
+  const base = findPromptProfile(String(parsed.id)) || DEFAULT_PROMPT_PROFILE;
+  const profile: PromptProfile = { ...base };
+  fields.forEach((field) => {
+    if (parsed[field] === undefined) return;
+    const value = typeof parsed[field] === "string" ? parsed[field].trim() : "";
+    if (!value) {
+      throw new Error(`Profile field "${field}" must be a non-empty string`);
+    }
+    if (value.length > MAX_FIELD_LENGTHS[field]) {
+      throw new Error(
+        `Profile field "${field}" is longer than ${MAX_FIELD_LENGTHS[field]} characters`
+      );
+    }
+    profile[field] = value;
+  });
+
+  if (fields.every((field) => profile[field] === base[field])) {
+    return base;
+  }
+  const label = typeof parsed.label === "string" ? parsed.label.trim() : "";
+  return {
+    ...profile,
+    id: CUSTOM_PROFILE_ID,
+    label: label && label !== base.label ? label : `${base.label} (edited)`,
+  };
+}
@@ -0,0 +1,256 @@
+import { PromptProfile, PromptVersion, Taxonomy } from "@/types";
+import { describeTaxonomyForPrompt } from "@/lib/taxonomy";
+
+/**
+ * Versioned prompt templates. `{{name}}` placeholders are filled from the
+ * analysis's prompt profile (businessDescription, tone, language) and from
+ * the request (taxonomy, transcript, statistics, ...).
+ */
+
+export interface PromptTemplate {
+  /**
+   * Bump whenever the template or a fragment it uses changes. Categorization
+   * versions are part of the result cache key, so cached results are not reused.
+   */
+  version: string;
+  system: string;
+  text: string;
+}
+
+const CATEGORIZATION_SYSTEM =
+  "You are a helpful AI assistant that analyzes customer service calls. Always respond with valid JSON only.";
+
+export const PROMPT_TEMPLATES = {
+  categorizeCall: {
+    version: "7",
+    system: CATEGORIZATION_SYSTEM,
+    text: `You are an AI assistant analyzing customer service call transcripts for {{businessDescription}}.
+
+Analyze the following call transcript and provide:
+{{categoryTask}}
+2. Customer sentiment (positive, neutral, or negative)
+3. A brief summary of the call, written in {{language}}
+{{taxonomySection}}{{partNote}}
+Call Information:
+{{callReason}}
+{{issuesDiscussed}}
+Transcript: {{transcript}}
+
+Respond ONLY with valid JSON format (no markdown, no code blocks, just the JSON object):
+{
+  "categories": ["CATEGORY 1", "CATEGORY 2"],
+  "categoryConfidence": [0.9, 0.6],
+  "sentiment": "neutral",
+  "sentimentConfidence": 0.8,
+  "summary": "Brief summary of the call"{{otherSuggestionField}}
+}
+
+Important:
+{{categoryRules}}
+{{confidenceRule}}
+- Only include categories that clearly apply to the conversation
+- Be accurate and avoid false assumptions
+- Return ONLY the JSON object, no other text`,
+  },
+
+  categorizeCallGroup: {
+    version: "7",
+    system: CATEGORIZATION_SYSTEM,
+    text: `You are an AI assistant analyzing customer service call transcripts for {{businessDescription}}.
+
+Analyze EACH of the following {{callCount}} call transcripts independently and provide for each:
+{{categoryTask}}
+2. Customer sentiment (positive, neutral, or negative)
+3. A brief summary of the call, written in {{language}}
+{{taxonomySection}}
+{{callBlocks}}
+
+Respond ONLY with a valid JSON object (no markdown, no code blocks) whose "results" array contains exactly one object per call, using the Call ID given above:
+{
+  "results": [
+    {
+      "id": "CALL ID",
+      "categories": ["CATEGORY 1", "CATEGORY 2"],
+      "categoryConfidence": [0.9, 0.6],
+      "sentiment": "neutral",
+      "sentimentConfidence": 0.8,
+      "summary": "Brief summary of the call"{{otherSuggestionEntryField}}
+    }
+  ]
+}
+
+Important:
+- Include every Call ID exactly once
+{{categoryRules}}
+{{confidenceRule}}
+- Return ONLY the JSON object, no other text`,
+  },
+
+  combineChunks: {
+    version: "6",
+    system: CATEGORIZATION_SYSTEM,
+    text: `You are an AI assistant analyzing customer service call transcripts for {{businessDescription}}.
+
+A long call transcript was analyzed in {{partCount}} consecutive parts. Combine the partial analyses below into one analysis of the whole call:
+1. The overall customer sentiment (positive, neutral, or negative), weighing how the call ended most heavily
+2. A brief summary of the entire call, written in {{language}}
+
+Partial analyses (in call order):
+{{partials}}
+
+Respond ONLY with valid JSON format (no markdown, no code blocks, just the JSON object):
+{
+  "sentiment": "neutral",
+  "sentimentConfidence": 0.8,
+  "summary": "Brief summary of the whole call"
+}`,
+  },
+
+  detailedReport: {
+    version: "1",
+    system:
+      "You are a professional business analyst that generates comprehensive reports. Always provide detailed, well-structured reports.",
+    text: `You are an AI assistant generating a comprehensive analysis report for customer service call data from {{businessDescription}}.
+
+Based on the following categorized call data and statistics, generate a detailed, professional plain text report (approximately 8 pages when formatted).
+
+The report should include:
+1. Executive Summary - High-level overview of the analysis
+2. Overall Statistics - Total calls, unique customers, duration metrics
+3. Sentiment Analysis - Distribution and insights on customer sentiment
+4. Category Analysis - Detailed breakdown of all categories with insights, trends, and patterns
+5. Key Findings - Important observations and patterns discovered
+6. Recommendations - Actionable insights based on the data
+7. Detailed Category Breakdown - For each category, provide count, percentage, customer impact, and sentiment distribution
+8. Sample Call Insights - Analysis of representative calls
+
+Data Summary:
+- Total Calls: {{totalCalls}}
+- Total Duration: {{totalDurationSeconds}} seconds ({{totalDurationHours}} hours)
+- Average Call Duration: {{avgDurationSeconds}} seconds
+- Sentiment Distribution: Positive: {{positive}}, Neutral: {{neutral}}, Negative: {{negative}}
+
+Category Statistics:
+{{categoryStatistics}}
+
+Sample Calls:
+{{sampleCalls}}
+
+Generate a comprehensive, well-structured plain text report in {{language}}. Keep the tone {{tone}}. The report should be detailed, insightful, and professional. Focus on actionable insights and patterns in the data.`,
+  },
+
+  summaryReport: {
+    version: "1",
+    system:
+      "You are a professional business analyst that generates executive summary reports. Always provide detailed, actionable reports with clear structure.",
+    text: `You are an AI assistant generating an executive detailed summary report of about 8-10 pages for customer service call data from {{businessDescription}}. Generate a professional, actionable report in plain text format similar to the following structure:
+
+REPORT STRUCTURE:
+1. Title: "Call Analysis: Executive Summary & Key Findings"
+2. Executive Summary - High-level overview explaining what the data reveals about customer needs, operational gaps, and opportunities
+3. Key Observations & Opportunities for Improvement - Numbered sections (1-4) with bullet points identifying:
+   - Quality Assurance & Service Consistency issues
+   - Inventory Alignment & Customer Demand gaps
+   - Data and Process Efficiency problems
+   - Customer Communication & AI Support Opportunities
+4. High-Value Missed Revenue Opportunities - Document specific products/services customers are requesting but not receiving
+5. Actionable Recommendations - Numbered list of specific operational improvements
+6. Proposed AI Enhancements - Suggestions for improving AI phone assistant capabilities
+
+IMPORTANT STYLE GUIDELINES:
+- Write the report in {{language}}
+- Use clear, professional language
+- Focus on actionable insights and business value
+- Identify specific patterns, gaps, and opportunities from the data
+- Provide concrete examples from the call data
+- Use bullet points (•) for sub-items
+- Keep the tone {{tone}}
+- Make recommendations specific and implementable
+
+DATA TO ANALYZE:
+Total Calls: {{totalCalls}}
+Total Duration: {{totalDurationSeconds}} seconds ({{totalDurationHours}} hours)
+Average Call Duration: {{avgDurationSeconds}} seconds
+
+Sentiment Distribution:
+- Positive: {{positive}} ({{positivePct}}%)
+- Neutral: {{neutral}} ({{neutralPct}}%)
+- Negative: {{negative}} ({{negativePct}}%)
+
+Top Categories:
+{{categoryStatistics}}
+{{reviewNote}}
+Sample Calls with Transcripts:
+{{sampleCalls}}
+
+Generate a comprehensive executive summary report that identifies key patterns, operational gaps, missed revenue opportunities, and provides actionable recommendations. The report should be detailed enough to be useful for decision-making but focused on insights and recommendations.`,
+  },
+};
+
+export type PromptTemplateName = keyof typeof PROMPT_TEMPLATES;
+
+/** Templates whose output is cached per call. */
+export const CATEGORIZATION_TEMPLATES: PromptTemplateName[] = [
+  "categorizeCall",
+  "categorizeCallGroup",
+  "combineChunks",
+];
+
+/**
+ * Fills the template's placeholders. Values are inserted verbatim, so a
+ * transcript containing "{{...}}" is not expanded. Throws when a placeholder
+ * has no value, which means the caller and the template are out of step.
+ */
+export function renderPrompt(
+  name: PromptTemplateName,
+  profile: PromptProfile,
+  variables: Record<string, string | number>
+): string {
+  const values: Record<string, string | number> = {
+    businessDescription: profile.businessDescription,
+    tone: profile.tone,
+    language: profile.language,
+    ...variables,
+  };
+  return PROMPT_TEMPLATES[name].text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    if (values[key] === undefined) {
+      throw new Error(`Prompt template "${name}" has no value for {{${key}}}`);
+    }
+    return String(values[key]);
+  });
+}
+
+export function templateVersions(
+  names: PromptTemplateName[] = Object.keys(PROMPT_TEMPLATES) as PromptTemplateName[]
+): Record<string, string> {
+  const versions: Record<string, string> = {};
+  names.forEach((name) => {
+    versions[name] = PROMPT_TEMPLATES[name].version;
+  });
+  return versions;
+}
+
+export function describePromptVersion(profile: PromptProfile): PromptVersion {
+  return { templates: templateVersions(), profile };
+}
+
+/** Variables shared by the categorization templates. */
+export function categorizationVariables(taxonomy?: Taxonomy): Record<string, string> {
+  return {
+    categoryTask: taxonomy
+      ? `1. The categories from the category taxonomy below that describe the call content, using their exact names. Use "OTHER" for anything the taxonomy does not cover and propose a short category name for it in "otherSuggestion".`
+      : `1. Relevant categories that best describe the call content. Create specific, meaningful category names based on what the customer is asking about or discussing. Do NOT assume categories based on the business name (a business named after one service also gets calls about others). Analyze the actual conversation content.`,
+    taxonomySection: taxonomy
+      ? `\nCategory taxonomy:\n${describeTaxonomyForPrompt(taxonomy)}\n`
+      : "",
+    categoryRules: taxonomy
+      ? `- Use only category names from the taxonomy, exactly as written, or OTHER
+- Only fill in "otherSuggestion" when OTHER is used`
+      : `- Create categories based on the actual conversation content, not business names or assumptions
+- Categories should be specific and descriptive (e.g., "PRICING INQUIRY", "SCHEDULING REQUEST", "SERVICE COMPLAINT", "PRODUCT INFORMATION", etc.)
+- When a category is a specific case of a broader one, write it as a path from broad to specific (e.g., "BILLING > REFUND REQUEST")`,
+    confidenceRule: `- "categoryConfidence" holds your confidence (0 to 1) in each category, in the same order as "categories"; "sentimentConfidence" is your confidence in the sentiment. Use low values when the transcript is ambiguous`,
+    otherSuggestionField: taxonomy ? `,\n  "otherSuggestion": ""` : "",
+    otherSuggestionEntryField: taxonomy ? `,\n      "otherSuggestion": ""` : "",
+  };
+}
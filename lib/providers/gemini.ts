@@ -0,0 +1,105 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { JsonSchema } from "@/lib/outputSchema";
+import { parseDuration } from "@/lib/rateLimiter";
+import { LLMProvider } from "./types";
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
+
+/** Gemini's response schema is an OpenAPI subset without length or range bounds. */
+function toGeminiSchema(schema: JsonSchema): any {
+  return {
+    type: schema.type,
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { format: "enum", enum: schema.enum } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [
+              key,
+              toGeminiSchema(value),
+            ])
+          ),
+        }
+      : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+  };
+}
+
+/** The retry delay Gemini suggests in a RetryInfo error detail, e.g. "27s". */
+function retryDelayFromDetails(details: any): number | undefined {
+  if (!Array.isArray(details)) return undefined;
+  const retryInfo = details.find((d) => String(d?.["@type"]).endsWith("RetryInfo"));
+  return retryInfo?.retryDelay ? parseDuration(String(retryInfo.retryDelay)) : undefined;
+}
+
+export const geminiProvider: LLMProvider = {
+  id: "gemini",
+  label: "Gemini",
+  capabilities: {
+    chat: false,
+    jsonMode: true,
+    contextWindow: 1000000,
+  },
+  models: [
+    {
+      value: "gemini-2.5-flash",
+      label: "Gemini 2.5 Flash",
+      limits: {
+        requestsPerMinute: 10,
+        requestsPerDay: 1500,
+        tokensPerMinute: 1000000,
+        tokensPerDay: 1000000,
+      },
+      price: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+      contextWindow: 1000000,
+    },
+  ],
+
+  async complete({ model, prompt, temperature, maxTokens, responseSchema }) {
+    if (!GEMINI_API_KEY) {
+      throw new Error(
+        "GEMINI_API_KEY is not set. Please set it in your environment variables."
+      );
+    }
+
+    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+    const geminiModel = genAI.getGenerativeModel({
+      model: model,
+      generationConfig: {
+        temperature,
+        maxOutputTokens: maxTokens,
+        ...(responseSchema
+          ? {
+              responseMimeType: "application/json",
+              responseSchema: toGeminiSchema(responseSchema),
+            }
+          : {}),
+      },
+    });
+
+    let result;
+    try {
+      result = await geminiModel.generateContent(prompt);
+    } catch (error: any) {
+      const retryAfterMs = retryDelayFromDetails(error?.errorDetails);
+      if (retryAfterMs !== undefined) {
+        error.rateLimit = { retryAfterMs };
+      }
+      throw error;
+    }
+    const response = await result.response;
+    const usage = response.usageMetadata;
+    return {
+      text: response.text(),
+      ...(usage
+        ? {
+            usage: {
+              promptTokens: usage.promptTokenCount || 0,
+              completionTokens: usage.candidatesTokenCount || 0,
+            },
+          }
+        : {}),
+    };
+  },
+};
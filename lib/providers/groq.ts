@@ -0,0 +1,161 @@
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+
+export const groqProvider = createOpenAICompatibleProvider({
+  id: "groq",
+  label: "Groq",
+  baseUrl: "https://api.groq.com/openai/v1",
+  apiKey: process.env.GROQ_API_KEY || "",
+  apiKeyEnvVar: "GROQ_API_KEY",
+  capabilities: {
+    chat: true,
+    jsonMode: true,
+    contextWindow: 128000,
+  },
+  models: [
+    {
+      value: "groq/compound",
+      label: "Groq Compound",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 250,
+        tokensPerMinute: 70000,
+      },
+      contextWindow: 128000,
+    },
+    {
+      value: "groq/compound-mini",
+      label: "Groq Compound Mini",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 250,
+        tokensPerMinute: 70000,
+      },
+      contextWindow: 128000,
+    },
+    {
+      value: "llama-3.3-70b-versatile",
+      label: "Llama 3.3 70B Versatile",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 1000,
+        tokensPerMinute: 12000,
+        tokensPerDay: 100000,
+      },
+      price: { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+      contextWindow: 128000,
+    },
+    {
+      value: "llama-3.1-8b-instant",
+      label: "Llama 3.1 8B Instant",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      price: { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+      contextWindow: 128000,
+    },
+    {
+      value: "llama-3.1-70b-instant",
+      label: "Llama 3.1 70B Instant",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      contextWindow: 128000,
+    },
+    {
+      value: "mixtral-8x7b-32768",
+      label: "Mixtral 8x7B",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      price: { inputPerMillion: 0.24, outputPerMillion: 0.24 },
+      contextWindow: 32768,
+    },
+    {
+      value: "gemma2-9b-it",
+      label: "Gemma2 9B IT",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      price: { inputPerMillion: 0.2, outputPerMillion: 0.2 },
+      contextWindow: 8192,
+    },
+    {
+      value: "allam-2-7b",
+      label: "Allam 2 7B",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      contextWindow: 8192,
+    },
+    {
+      value: "meta-llama/llama-3.1-8b-instant",
+      label: "Meta Llama 3.1 8B Instant",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      contextWindow: 128000,
+    },
+    {
+      value: "meta-llama/llama-3.1-70b-instant",
+      label: "Meta Llama 3.1 70B Instant",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      contextWindow: 128000,
+    },
+    {
+      value: "meta-llama/llama-3.1-405b-instruct",
+      label: "Meta Llama 3.1 405B Instruct",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      contextWindow: 128000,
+    },
+    {
+      value: "meta-llama/llama-3.3-70b-instruct",
+      label: "Meta Llama 3.3 70B Instruct",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      contextWindow: 128000,
+    },
+    {
+      value: "meta-llama/llama-3.3-70b-versatile",
+      label: "Meta Llama 3.3 70B Versatile",
+      limits: {
+        requestsPerMinute: 30,
+        requestsPerDay: 7000,
+        tokensPerMinute: 6000,
+        tokensPerDay: 500000,
+      },
+      contextWindow: 128000,
+    },
+  ],
+});
@@ -0,0 +1,188 @@
+import { ModelConfig, ModelInfo, ModelPrice, ProviderInfo } from "@/types";
+import { geminiProvider } from "./gemini";
+import { groqProvider } from "./groq";
+import { mockProvider } from "./mock";
+import { createLocalProviderFromEnv } from "./openaiCompatible";
+import { LLMProvider, RetryPolicy } from "./types";
+import { CircuitBreakerPolicy } from "@/lib/circuitBreaker";
+
+export type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  RetryPolicy,
+} from "./types";
+
+const registry = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(registry.values());
+}
+
+export function findProvider(id: string): LLMProvider | undefined {
+  return registry.get(id);
+}
+
+export function getProvider(id: string): LLMProvider {
+  const provider = registry.get(id);
+  if (!provider) {
+    throw new Error(
+      `Unknown provider "${id}". Available providers: ${listProviders()
+        .map((p) => p.id)
+        .join(", ")}`
+    );
+  }
+  return provider;
+}
+
+export function findModel(config: ModelConfig): ModelInfo | undefined {
+  return findProvider(config.provider)?.models.find(
+    (m) => m.value === config.model
+  );
+}
+
+/**
+ * Price overrides from MODEL_PRICES, a JSON object keyed by "provider/model",
+ * e.g. {"groq/llama-3.3-70b-versatile": {"inputPerMillion": 0.59, "outputPerMillion": 0.79}}.
+ */
+function priceOverrides(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICES) return {};
+  try {
+    return JSON.parse(process.env.MODEL_PRICES);
+  } catch {
+    console.warn("⚠️  MODEL_PRICES is not valid JSON; using the built-in prices");
+    return {};
+  }
+}
+
+/** USD per million tokens for the model, or undefined when its price is unknown. */
+export function getModelPrice(config: ModelConfig): ModelPrice | undefined {
+  return (
+    priceOverrides()[`${config.provider}/${config.model}`] ||
+    findModel(config)?.price
+  );
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  retryableStatuses: [429, 500, 502, 503, 504],
+  baseDelayMs: { 429: 5000, 503: 10000, default: 15000 },
+  maxDelayMs: { 429: 90000, 503: 180000, default: 120000 },
+};
+
+/** The provider's retry policy, falling back to the defaults for unset fields. */
+export function getRetryPolicy(id: string): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...findProvider(id)?.retryPolicy };
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  probeIntervalMs: 30000,
+};
+
+export function getCircuitBreakerPolicy(id: string): CircuitBreakerPolicy {
+  return { ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...findProvider(id)?.circuitBreaker };
+}
+
+/** Serializable view of the registry for the client-side model picker. */
+export function describeProviders(): ProviderInfo[] {
+  return listProviders().map((provider) => ({
+    id: provider.id,
+    label: provider.label,
+    capabilities: provider.capabilities,
+    models: provider.models.map((model) => ({
+      ...model,
+      price: getModelPrice({ provider: provider.id, model: model.value }),
+    })),
+  }));
+}
+
+/** Returns an error message when the config names an unregistered provider or model, or has out-of-range options. */
+export function validateModelConfig(
+  config: Partial<ModelConfig> | null | undefined
+): string | null {
+  if (!config || !config.provider || !config.model) {
+    return "Provider and model must be specified";
+  }
+
+  const provider = findProvider(config.provider);
+  if (!provider) {
+    return `Invalid provider. Must be one of: ${listProviders()
+      .map((p) => `"${p.id}"`)
+      .join(", ")}`;
+  }
+
+  if (!provider.models.some((m) => m.value === config.model)) {
+    return `Invalid model "${config.model}" for provider "${provider.id}"`;
+  }
+
+  if (
+    config.temperature !== undefined &&
+    (!Number.isFinite(config.temperature) ||
+      config.temperature < 0 ||
+      config.temperature > 2)
+  ) {
+    return "Temperature must be a number between 0 and 2";
+  }
+
+  return null;
+}
+
+/**
+ * Parses a JSON array of additional model configs sent with an analysis
+ * request (consensus or fallback models). Throws with a user-facing message
+ * when a config is invalid, repeats the primary model or the list is too long.
+ */
+export function parseModelConfigList(
+  text: string,
+  primary: ModelConfig,
+  maxModels: number
+): ModelConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Models must be a JSON array");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("Models must be a JSON array");
+  }
+  if (parsed.length > maxModels) {
+    throw new Error(`At most ${maxModels} additional models are supported`);
+  }
+
+  const seen = [`${primary.provider}/${primary.model}`];
+  return parsed.map((config: Partial<ModelConfig>) => {
+    const error = validateModelConfig(config);
+    if (error) throw new Error(error);
+    const key = `${config.provider}/${config.model}`;
+    if (seen.indexOf(key) !== -1) {
+      throw new Error(`Model ${key} is listed more than once`);
+    }
+    seen.push(key);
+    return {
+      provider: config.provider!,
+      model: config.model!,
+      temperature: config.temperature,
+    };
+  });
+}
+
+registerProvider(geminiProvider);
+registerProvider(groqProvider);
+
+const localProvider = createLocalProviderFromEnv();
+if (localProvider) {
+  registerProvider(localProvider);
+}
+
+if (
+  process.env.NODE_ENV !== "production" ||
+  process.env.ENABLE_MOCK_PROVIDER === "true"
+) {
+  registerProvider(mockProvider);
+}
@@ -0,0 +1,337 @@
+import { LLMProvider } from "./types";
+
+/**
+ * Offline provider for tests and demos. Categorizations are derived from
+ * keyword rules over the transcript, so the same input always produces the
+ * same output.
+ *
+ * Errors can be simulated per call by putting a directive in the transcript:
+ *   [mock:429]    always fail with a 429 rate limit
+ *   [mock:503x2]  fail the first 2 attempts with a 503, then succeed
+ *   [mock:400]    fail with a context-length 400
+ *   [mock:quota]  fail with a 429 whose daily quota is exceeded
+ * Append "@model" (e.g. [mock:quota@mock-keyword]) to fail only that model.
+ *   [mock:badjson]         return schema-invalid JSON until corrected
+ *   [mock:badjson-always]  return schema-invalid JSON every time
+ * Simulated 429s carry a 2-second retry-after, like Groq's responses.
+ * Attempts are counted per prompt and forgotten once the prompt has not been
+ * seen for a while, so every analysis run starts again from the first attempt.
+ * The "mock-flaky" model additionally fails the first attempt of roughly one
+ * in four prompts with a 503, and drops the last entry of multi-call
+ * responses so the re-submission path can be exercised.
+ */
+
+/**
+ * Confidences grow with the number of keyword hits, so calls matched by a
+ * single incidental word land near the default review threshold.
+ */
+function keywordConfidence(hits: number): number {
+  return Math.round(Math.min(0.95, 0.45 + 0.15 * hits) * 100) / 100;
+}
+
+const CATEGORY_RULES: Array<{ category: string; keywords: string[] }> = [
+  { category: "PRICING INQUIRY", keywords: ["price", "cost", "how much", "quote", "expensive"] },
+  { category: "SCHEDULING REQUEST", keywords: ["appointment", "schedule", "book", "reschedule", "available"] },
+  { category: "SERVICE COMPLAINT", keywords: ["complaint", "damage", "leak", "wrong", "broke", "not fixed"] },
+  { category: "OIL CHANGE", keywords: ["oil change", "synthetic", "oil filter"] },
+  { category: "BRAKE SERVICES", keywords: ["brake", "rotor", "pads"] },
+  { category: "TIRE SERVICES", keywords: ["tire", "tyre", "alignment", "rotation"] },
+  { category: "BATTERY SERVICES", keywords: ["battery", "jump start"] },
+  { category: "BILLING ISSUE", keywords: ["refund", "charged", "bill", "invoice", "payment"] },
+  { category: "WARRANTY/GUARANTEE", keywords: ["warranty", "guarantee"] },
+  { category: "LOCATION/HOURS", keywords: ["address", "directions", "located", "open", "hours"] },
+];
+
+const POSITIVE_WORDS = ["thank", "great", "appreciate", "perfect", "happy", "excellent", "awesome"];
+const NEGATIVE_WORDS = ["angry", "upset", "terrible", "worst", "disappointed", "frustrated", "unacceptable", "complaint"];
+
+/** Longer than any retry or circuit-probe wait in the mock's policies. */
+const ATTEMPT_MEMORY_MS = 30000;
+const MAX_TRACKED_PROMPTS = 1000;
+
+// Ordered from least to most recently seen, so stale entries are at the front.
+const attemptsByPrompt = new Map<string, { attempts: number; lastSeen: number }>();
+
+/** Counts this attempt at the prompt and returns its number, starting at 1. */
+function recordAttempt(key: string): number {
+  const now = Date.now();
+  for (const [staleKey, entry] of Array.from(attemptsByPrompt)) {
+    if (now - entry.lastSeen < ATTEMPT_MEMORY_MS && attemptsByPrompt.size < MAX_TRACKED_PROMPTS) {
+      break;
+    }
+    attemptsByPrompt.delete(staleKey);
+  }
+
+  const previous = attemptsByPrompt.get(key);
+  const attempts = (previous?.attempts || 0) + 1;
+  attemptsByPrompt.delete(key);
+  attemptsByPrompt.set(key, { attempts, lastSeen: now });
+  return attempts;
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function countMatches(text: string, words: string[]): number {
+  return words.filter((word) => text.includes(word)).length;
+}
+
+function simulatedError(status: number, message: string, code?: string) {
+  const error: any = new Error(message);
+  error.status = status;
+  error.errorData = { error: { message, code } };
+  return error;
+}
+
+function maybeFail(prompt: string, model: string) {
+  const attempt = recordAttempt(String(hashString(prompt)));
+
+  const quota = prompt.match(/\[mock:quota(?:@([\w-]+))?\]/);
+  if (quota && (!quota[1] || quota[1] === model)) {
+    throw simulatedError(429, "Simulated daily request quota exceeded");
+  }
+
+  const directive = prompt.match(/\[mock:(\d{3})(?:x(\d+))?(?:@([\w-]+))?\]/);
+  if (directive && (!directive[3] || directive[3] === model)) {
+    const status = Number(directive[1]);
+    const failCount = directive[2] ? Number(directive[2]) : Infinity;
+    if (attempt <= failCount) {
+      if (status === 400) {
+        throw simulatedError(
+          400,
+          "Simulated error: prompt exceeds the model context length",
+          "context_length_exceeded"
+        );
+      }
+      if (status === 429) {
+        const error = simulatedError(429, "Simulated rate limit reached");
+        error.rateLimit = { retryAfterMs: 2000, remainingRequests: 0, resetRequestsMs: 2000 };
+        throw error;
+      }
+      throw simulatedError(status, `Simulated server error (${status})`);
+    }
+  }
+
+  if (model === "mock-flaky" && attempt === 1 && hashString(prompt) % 4 === 0) {
+    throw simulatedError(503, "Simulated service overload (503)");
+  }
+}
+
+function mockCategorize(transcript: string) {
+  const text = transcript.toLowerCase();
+
+  const matched = CATEGORY_RULES.map((rule) => ({
+    category: rule.category,
+    hits: countMatches(text, rule.keywords),
+  })).filter((match) => match.hits > 0);
+  const categories = matched.map((match) => match.category);
+  const categoryConfidence = matched.map((match) => keywordConfidence(match.hits));
+  if (categories.length === 0) {
+    categories.push("GENERAL INQUIRY");
+    categoryConfidence.push(0.4);
+  }
+
+  const positive = countMatches(text, POSITIVE_WORDS);
+  const negative = countMatches(text, NEGATIVE_WORDS);
+  const sentiment =
+    positive > negative ? "positive" : negative > positive ? "negative" : "neutral";
+  const sentimentConfidence =
+    positive === negative
+      ? positive === 0
+        ? 0.7
+        : 0.4
+      : keywordConfidence(Math.abs(positive - negative) + 1);
+
+  const firstSentence = transcript.trim().split(/[.!?]\s/)[0] || "";
+  const summary = `Caller discussed ${categories
+    .join(", ")
+    .toLowerCase()}. ${firstSentence.substring(0, 120)}`.trim();
+
+  return {
+    categories: categories.slice(0, 3),
+    categoryConfidence: categoryConfidence.slice(0, 3),
+    sentiment,
+    sentimentConfidence,
+    summary,
+  };
+}
+
+function extractTranscript(prompt: string): string | null {
+  const match = prompt.match(/Transcript: ([\s\S]*?)(?:\n\nRespond ONLY|$)/);
+  return match ? match[1] : null;
+}
+
+function extractCallBlocks(
+  prompt: string
+): Array<{ id: string; transcript: string }> {
+  const blocks: Array<{ id: string; transcript: string }> = [];
+  const pattern =
+    /Call ID: (\S+)\n[\s\S]*?Transcript: ([\s\S]*?)(?=\n\nCall ID: |\n\nRespond ONLY|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(prompt)) !== null) {
+    blocks.push({ id: match[1], transcript: match[2] });
+  }
+  return blocks;
+}
+
+function extractPartialAnalyses(
+  prompt: string
+): Array<{ sentiment: string; sentimentConfidence?: number; summary: string }> | null {
+  const match = prompt.match(
+    /Partial analyses \(in call order\):\n([\s\S]*?)\n\nRespond ONLY/
+  );
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+function extractTaxonomyNames(prompt: string): string[] | null {
+  const match = prompt.match(/Category taxonomy:\n([\s\S]*?)\n\n/);
+  if (!match) return null;
+  return match[1]
+    .split("\n")
+    .map((line) => line.replace(/^\s*- /, "").split(":")[0].trim())
+    .filter(Boolean);
+}
+
+/** Keeps keyword categories that exist in the taxonomy and files the rest under OTHER. */
+function constrainToTaxonomy(
+  result: ReturnType<typeof mockCategorize>,
+  taxonomyNames: string[] | null
+) {
+  if (!taxonomyNames) return result;
+  const known: string[] = [];
+  const knownConfidence: number[] = [];
+  const unknown: string[] = [];
+  const unknownConfidence: number[] = [];
+  result.categories.forEach((category, i) => {
+    const name = taxonomyNames.find(
+      (n) => n.toUpperCase() === category.toUpperCase()
+    );
+    if (name) {
+      known.push(name);
+      knownConfidence.push(result.categoryConfidence[i]);
+    } else {
+      unknown.push(category);
+      unknownConfidence.push(result.categoryConfidence[i]);
+    }
+  });
+  return {
+    ...result,
+    categories: unknown.length > 0 ? known.concat("OTHER") : known,
+    categoryConfidence:
+      unknown.length > 0
+        ? knownConfidence.concat(Math.min(...unknownConfidence))
+        : knownConfidence,
+    otherSuggestion: unknown[0] || "",
+  };
+}
+
+function mockReport(prompt: string): string {
+  const totalCalls = prompt.match(/Total Calls: (\d+)/)?.[1] || "0";
+  return [
+    "MOCK ANALYSIS REPORT",
+    "",
+    "This report was produced by the offline mock provider.",
+    `Total calls in the analyzed data: ${totalCalls}.`,
+    "",
+    "Executive Summary",
+    "Deterministic placeholder content for demos and end-to-end testing.",
+  ].join("\n");
+}
+
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  label: "Mock (offline)",
+  capabilities: {
+    chat: true,
+    jsonMode: true,
+    contextWindow: 32768,
+  },
+  // Short delays keep simulated outages quick to step through.
+  retryPolicy: {
+    maxRetries: 3,
+    baseDelayMs: { default: 500 },
+    maxDelayMs: { default: 5000 },
+  },
+  circuitBreaker: { probeIntervalMs: 5000 },
+  models: [
+    {
+      value: "mock-keyword",
+      label: "Keyword rules (deterministic)",
+      limits: {},
+      price: { inputPerMillion: 0, outputPerMillion: 0 },
+      contextWindow: 32768,
+    },
+    {
+      value: "mock-flaky",
+      label: "Keyword rules with simulated 503s",
+      limits: {},
+      price: { inputPerMillion: 0, outputPerMillion: 0 },
+      contextWindow: 32768,
+    },
+  ],
+
+  async complete({ model, prompt }) {
+    maybeFail(prompt, model);
+    const taxonomyNames = extractTaxonomyNames(prompt);
+
+    const callBlocks = extractCallBlocks(prompt);
+    if (callBlocks.length > 0) {
+      const answered =
+        model === "mock-flaky" && callBlocks.length > 1
+          ? callBlocks.slice(0, -1)
+          : callBlocks;
+      return {
+        text: JSON.stringify({
+          results: answered.map((block) => ({
+            id: block.id,
+            ...constrainToTaxonomy(mockCategorize(block.transcript), taxonomyNames),
+          })),
+        }),
+      };
+    }
+
+    if (prompt.includes("[mock:badjson")) {
+      const corrected = prompt.includes("Your previous response was rejected");
+      if (!corrected || prompt.includes("[mock:badjson-always]")) {
+        return {
+          text: '{"categories": ["GENERAL INQUIRY"], "sentiment": "mixed"}',
+        };
+      }
+    }
+
+    const partials = extractPartialAnalyses(prompt);
+    if (partials) {
+      const decisive = partials.filter((p) => p.sentiment !== "neutral");
+      const deciding = decisive[decisive.length - 1];
+      return {
+        text: JSON.stringify({
+          sentiment: deciding ? deciding.sentiment : "neutral",
+          sentimentConfidence: deciding?.sentimentConfidence ?? 0.6,
+          summary: partials.map((p) => p.summary).join(" "),
+        }),
+      };
+    }
+
+    const transcript = extractTranscript(prompt);
+    if (transcript === null) {
+      return { text: mockReport(prompt) };
+    }
+
+    return {
+      text: JSON.stringify(
+        constrainToTaxonomy(mockCategorize(transcript), taxonomyNames)
+      ),
+    };
+  },
+};
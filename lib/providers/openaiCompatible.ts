@@ -0,0 +1,159 @@
+import { ModelInfo, ProviderCapabilities } from "@/types";
+import { parseRateLimitHeaders } from "@/lib/rateLimiter";
+import { CircuitBreakerPolicy } from "@/lib/circuitBreaker";
+import { LLMProvider, RetryPolicy } from "./types";
+
+export interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  /** Base URL of the API, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  /** Env var named in the error when a key is required but missing. */
+  apiKeyEnvVar?: string;
+  models: ModelInfo[];
+  capabilities?: Partial<ProviderCapabilities>;
+  retryPolicy?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+}
+
+export function createOpenAICompatibleProvider(
+  options: OpenAICompatibleOptions
+): LLMProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const jsonMode = options.capabilities?.jsonMode ?? true;
+
+  return {
+    id: options.id,
+    label: options.label,
+    capabilities: {
+      chat: true,
+      jsonMode: true,
+      contextWindow: 8192,
+      ...options.capabilities,
+    },
+    models: options.models,
+    retryPolicy: options.retryPolicy,
+    circuitBreaker: options.circuitBreaker,
+
+    async complete({
+      model,
+      prompt,
+      system,
+      temperature,
+      maxTokens,
+      responseSchema,
+    }) {
+      if (options.apiKeyEnvVar && !options.apiKey) {
+        throw new Error(
+          `${options.apiKeyEnvVar} is not set. Please set it in your environment variables.`
+        );
+      }
+
+      const messages: Array<{ role: string; content: string }> = [];
+      if (system) {
+        messages.push({ role: "system", content: system });
+      }
+      messages.push({ role: "user", content: prompt });
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (options.apiKey) {
+        headers.Authorization = `Bearer ${options.apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: model,
+          messages: messages,
+          temperature: temperature ?? 0.7,
+          max_tokens: maxTokens ?? 8192,
+          ...(responseSchema && jsonMode
+            ? { response_format: { type: "json_object" } }
+            : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const error: any = new Error(
+          errorData.error?.message ||
+            `HTTP ${response.status}: ${response.statusText}`
+        );
+        error.status = response.status;
+        error.errorData = errorData;
+        error.rateLimit = parseRateLimitHeaders(response.headers);
+        throw error;
+      }
+
+      const data = await response.json();
+      return {
+        text: data.choices?.[0]?.message?.content || "",
+        rateLimit: parseRateLimitHeaders(response.headers),
+        ...(data.usage
+          ? {
+              usage: {
+                promptTokens: data.usage.prompt_tokens || 0,
+                completionTokens: data.usage.completion_tokens || 0,
+              },
+            }
+          : {}),
+      };
+    },
+  };
+}
+
+/**
+ * Self-hosted server (Ollama, vLLM, LM Studio, ...) configured through
+ * OPENAI_COMPATIBLE_* env vars. Returns null when no base URL is set, or
+ * when no models are listed, since every request would then be rejected.
+ */
+export function createLocalProviderFromEnv(): LLMProvider | null {
+  const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseUrl) {
+    return null;
+  }
+
+  const contextWindow =
+    Number(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW) || 8192;
+  const models: ModelInfo[] = (process.env.OPENAI_COMPATIBLE_MODELS || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => ({
+      value: name,
+      label: name,
+      limits: {},
+      price: { inputPerMillion: 0, outputPerMillion: 0 },
+      contextWindow,
+    }));
+  if (models.length === 0) {
+    console.error(
+      "❌ OPENAI_COMPATIBLE_BASE_URL is set but OPENAI_COMPATIBLE_MODELS lists no models; the self-hosted provider is disabled. Set it to a comma-separated list of model names."
+    );
+    return null;
+  }
+
+  return createOpenAICompatibleProvider({
+    id: "openai-compatible",
+    label: process.env.OPENAI_COMPATIBLE_LABEL || "Self-hosted (OpenAI-compatible)",
+    baseUrl,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+    models,
+    capabilities: {
+      contextWindow,
+      jsonMode: process.env.OPENAI_COMPATIBLE_JSON_MODE !== "false",
+    },
+    // A local server that is down stays down; don't wait minutes before
+    // moving on to a fallback model.
+    retryPolicy: {
+      maxRetries: Number(process.env.OPENAI_COMPATIBLE_MAX_RETRIES) || 2,
+      baseDelayMs: { default: 2000 },
+      maxDelayMs: { default: 10000 },
+    },
+    circuitBreaker: { failureThreshold: 3 },
+  });
+}
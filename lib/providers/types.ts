@@ -0,0 +1,62 @@
+import { ModelInfo, ProviderCapabilities } from "@/types";
+import { JsonSchema } from "@/lib/outputSchema";
+import { RateLimitState } from "@/lib/rateLimiter";
+import { CircuitBreakerPolicy } from "@/lib/circuitBreaker";
+
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Expected JSON shape. Providers with a native JSON or structured-output
+   * mode should enable it; the caller validates the text either way.
+   */
+  responseSchema?: JsonSchema;
+}
+
+export interface CompletionResult {
+  text: string;
+  /** Quota the provider reported in its response headers, if any. */
+  rateLimit?: RateLimitState;
+  /** Token counts the provider reported; estimated by the caller when absent. */
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/** Delays in milliseconds by HTTP status; `default` covers statuses not listed. */
+export type StatusDelays = { default: number; [status: number]: number };
+
+/** How failed requests to a provider are retried. */
+export interface RetryPolicy {
+  maxRetries: number;
+  /** Statuses worth retrying; anything else fails at once. */
+  retryableStatuses: number[];
+  /** First backoff delay, doubled on every further attempt. */
+  baseDelayMs: StatusDelays;
+  /**
+   * Longest single wait. When the server asks for a longer wait than this,
+   * the request fails instead so the call can move to a fallback model.
+   */
+  maxDelayMs: StatusDelays;
+}
+
+/**
+ * A backend that can run a single completion. Chat providers receive the
+ * system message separately; prompt-only providers get the prompt alone.
+ */
+export interface LLMProvider {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  models: ModelInfo[];
+  /** Overrides of the default retry policy. */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Overrides of the default circuit breaker policy. */
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+  /**
+   * Errors should carry the HTTP `status`, and `rateLimit` when the response
+   * said how long to wait.
+   */
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
@@ -0,0 +1,214 @@
+import { ModelConfig, RateLimits } from "@/types";
+
+const MINUTE_MS = 60000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Rough token estimate (~4 characters per token) used for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Quota a provider reported for the API key, as returned in response headers. */
+export interface RateLimitState {
+  /** How long the server asked the client to wait before retrying. */
+  retryAfterMs?: number;
+  remainingRequests?: number;
+  remainingTokens?: number;
+  /** Time until the request or token quota is replenished. */
+  resetRequestsMs?: number;
+  resetTokensMs?: number;
+}
+
+/**
+ * Parses durations such as "1m26.4s", "7.66s", "250ms" (x-ratelimit-reset-*)
+ * or a bare number of seconds.
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(Number(trimmed) * 1000);
+  }
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = "";
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    total += Number(match[1]) * units[match[2]];
+    matched += match[0];
+  }
+  return matched.length > 0 && matched === trimmed ? Math.ceil(total) : undefined;
+}
+
+/** Reads retry-after and x-ratelimit-* headers (Groq, OpenAI and compatible servers). */
+export function parseRateLimitHeaders(headers: {
+  get(name: string): string | null;
+}): RateLimitState | undefined {
+  const state: RateLimitState = {};
+
+  const retryAfterMs = headers.get("retry-after-ms");
+  const retryAfter = headers.get("retry-after");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    state.retryAfterMs = Number(retryAfterMs);
+  } else if (retryAfter) {
+    // retry-after is either a number of seconds or an HTTP date
+    const date = Date.parse(retryAfter);
+    state.retryAfterMs =
+      parseDuration(retryAfter) ??
+      (isNaN(date) ? undefined : Math.max(0, date - Date.now()));
+  }
+
+  const number = (name: string) => {
+    const value = headers.get(name);
+    return value !== null && !isNaN(Number(value)) ? Number(value) : undefined;
+  };
+  const duration = (name: string) => {
+    const value = headers.get(name);
+    return value !== null ? parseDuration(value) : undefined;
+  };
+  state.remainingRequests = number("x-ratelimit-remaining-requests");
+  state.remainingTokens = number("x-ratelimit-remaining-tokens");
+  state.resetRequestsMs = duration("x-ratelimit-reset-requests");
+  state.resetTokensMs = duration("x-ratelimit-reset-tokens");
+
+  const reported = Object.keys(state).filter(
+    (key) => state[key as keyof RateLimitState] !== undefined
+  );
+  return reported.length > 0 ? state : undefined;
+}
+
+class TokenBucket {
+  private available: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.available = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(
+      this.capacity,
+      this.available + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  /** Milliseconds until `amount` can be taken (0 when available now). */
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity) - this.available;
+    return needed <= 0 ? 0 : Math.ceil(needed / this.refillPerMs);
+  }
+
+  take(amount: number) {
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  /** Lowers the budget to what the provider says is left. */
+  limitTo(remaining: number) {
+    this.refill();
+    this.available = Math.min(this.available, remaining);
+  }
+}
+
+/**
+ * Requests-per-minute and tokens-per-minute budget for one provider/model.
+ * Callers are served in FIFO order so concurrent workers cannot starve
+ * each other.
+ */
+export class ModelRateLimiter {
+  private requests: TokenBucket | null;
+  private tokens: TokenBucket | null;
+  private queue: Promise<void> = Promise.resolve();
+  private pausedUntil = 0;
+
+  constructor(readonly limits: RateLimits) {
+    this.requests = limits.requestsPerMinute
+      ? new TokenBucket(
+          limits.requestsPerMinute,
+          limits.requestsPerMinute / MINUTE_MS
+        )
+      : null;
+    this.tokens = limits.tokensPerMinute
+      ? new TokenBucket(limits.tokensPerMinute, limits.tokensPerMinute / MINUTE_MS)
+      : null;
+  }
+
+  /**
+   * Waits for budget. When the provider said the quota is used up for longer
+   * than `maxWaitMs`, fails with a 429 instead so the call can move to a
+   * fallback model rather than hold its worker until the quota resets.
+   */
+  acquire(estimatedTokens: number, maxWaitMs = Infinity): Promise<void> {
+    const turn = this.queue.then(() =>
+      this.waitForCapacity(estimatedTokens, maxWaitMs)
+    );
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /** Holds back every caller, e.g. while the server's retry-after runs. */
+  pauseFor(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /** Aligns the local budget with the quota the provider reported. */
+  observe(state: RateLimitState) {
+    if (state.remainingRequests !== undefined) {
+      this.requests?.limitTo(state.remainingRequests);
+      if (state.remainingRequests <= 0 && state.resetRequestsMs) {
+        this.pauseFor(state.resetRequestsMs);
+      }
+    }
+    if (state.remainingTokens !== undefined) {
+      this.tokens?.limitTo(state.remainingTokens);
+      if (state.remainingTokens <= 0 && state.resetTokensMs) {
+        this.pauseFor(state.resetTokensMs);
+      }
+    }
+  }
+
+  private async waitForCapacity(estimatedTokens: number, maxWaitMs: number) {
+    while (true) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > maxWaitMs) {
+        const error: any = new Error(
+          `Rate limit quota exceeded; it resets in ${Math.ceil(pause / 1000)}s`
+        );
+        error.status = 429;
+        error.rateLimit = { retryAfterMs: pause };
+        throw error;
+      }
+      const wait = Math.max(
+        pause,
+        this.requests?.waitTime(1) ?? 0,
+        this.tokens?.waitTime(estimatedTokens) ?? 0
+      );
+      if (wait === 0) break;
+      await sleep(wait);
+    }
+    this.requests?.take(1);
+    this.tokens?.take(estimatedTokens);
+  }
+}
+
+// Provider quotas belong to the API key, not to an analysis, so limiters are
+// shared by every request that targets the same provider/model.
+const limiters = new Map<string, ModelRateLimiter>();
+
+export function getRateLimiter(
+  config: ModelConfig,
+  limits: RateLimits
+): ModelRateLimiter {
+  const key = `${config.provider}/${config.model}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new ModelRateLimiter(limits);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
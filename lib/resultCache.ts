@@ -0,0 +1,87 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { CacheMode, ModelConfig } from "@/types";
+
+/**
+ * Content-addressed store for categorization results. Each entry is a JSON
+ * file named after the hash of everything that influences the model output,
+ * so unchanged calls are never paid for twice.
+ */
+
+export type { CacheMode };
+
+export const CACHE_MODES: CacheMode[] = ["use", "refresh", "bypass"];
+
+/** Reads the `cacheMode` form field; "use" when it is absent. */
+export function parseCacheMode(input: string | null): CacheMode {
+  if (!input) return "use";
+  const mode = CACHE_MODES.find((m) => m === input);
+  if (!mode) {
+    throw new Error(`Unknown cache mode "${input}". Use one of: ${CACHE_MODES.join(", ")}`);
+  }
+  return mode;
+}
+
+const CACHE_DIR =
+  process.env.RESULT_CACHE_DIR ||
+  path.join(process.cwd(), ".cache", "categorizations");
+
+export function resultCacheKey(
+  call: { transcript: string; callReason?: string; issuesDiscussed?: string },
+  modelConfig: ModelConfig,
+  promptVersion: string
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        call.transcript,
+        call.callReason || "",
+        call.issuesDiscussed || "",
+        modelConfig.provider,
+        modelConfig.model,
+        // Generation settings change the output as much as the model does.
+        modelConfig.temperature ?? null,
+        modelConfig.maxTokens ?? null,
+        promptVersion,
+      ])
+    )
+    .digest("hex");
+}
+
+export async function readCachedResult<T>(key: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(path.join(CACHE_DIR, `${key}.json`), "utf8");
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCachedResult<T>(key: string, value: T) {
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    const file = path.join(CACHE_DIR, `${key}.json`);
+    const tmpFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(value));
+    await fs.rename(tmpFile, file);
+  } catch (error) {
+    console.error("Error writing result cache:", error);
+  }
+}
+
+/** Removes every cached result and returns how many entries were deleted. */
+export async function clearResultCache(): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(CACHE_DIR);
+  } catch {
+    return 0;
+  }
+
+  const cacheFiles = entries.filter((name) => name.endsWith(".json"));
+  await Promise.all(
+    cacheFiles.map((name) => fs.unlink(path.join(CACHE_DIR, name)))
+  );
+  return cacheFiles.length;
+}
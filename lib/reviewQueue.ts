@@ -0,0 +1,211 @@
+import { CallData, ReviewStats, Taxonomy } from "@/types";
+import { OTHER_CATEGORY, taxonomyPath } from "@/lib/taxonomy";
+import { hasModelDisagreement } from "@/lib/ensemble";
+
+/**
+ * Selects calls whose AI labels need a human look and applies reviewer
+ * decisions (accepting, overriding or reverting labels) with an audit trail.
+ * Safe to import from client components.
+ */
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+const API_ERROR_CATEGORY = "UNCATEGORIZED - API ERROR";
+
+export type ReviewReason = "low_confidence" | "fallback" | "api_error" | "disagreement";
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  low_confidence: "Low confidence",
+  fallback: "Fallback result",
+  api_error: "API error",
+  disagreement: "Models disagree",
+};
+
+export interface ReviewItem {
+  call: CallData;
+  reasons: ReviewReason[];
+  /** Lowest confidence the model reported for the call's labels. */
+  confidence?: number;
+}
+
+/** Lowest of the call's category and sentiment confidences, if any were reported. */
+export function lowestConfidence(call: CallData): number | undefined {
+  if (!call.confidence) return undefined;
+  const scores: Array<number | undefined> = call.categories.map(
+    (label) => call.confidence!.categories[label]
+  );
+  scores.push(call.confidence.sentiment);
+  const reported = scores.filter((score): score is number => typeof score === "number");
+  return reported.length > 0 ? Math.min(...reported) : undefined;
+}
+
+export function reviewReasons(call: CallData, threshold: number): ReviewReason[] {
+  const reasons: ReviewReason[] = [];
+  if (call.categories.includes(API_ERROR_CATEGORY)) {
+    reasons.push("api_error");
+  } else if (call.usedFallback) {
+    reasons.push("fallback");
+  }
+  if (hasModelDisagreement(call)) {
+    reasons.push("disagreement");
+  }
+  const confidence = lowestConfidence(call);
+  if (confidence !== undefined && confidence < threshold) {
+    reasons.push("low_confidence");
+  }
+  return reasons;
+}
+
+/**
+ * Calls needing review, least confident first. Errors and fallbacks, which
+ * have no meaningful confidence, come before everything else.
+ */
+export function buildReviewQueue(
+  calls: CallData[],
+  threshold: number,
+  includeReviewed = false
+): ReviewItem[] {
+  return calls
+    .filter((call) => includeReviewed || !call.review)
+    .map((call) => ({
+      call,
+      reasons: reviewReasons(call, threshold),
+      confidence: lowestConfidence(call),
+    }))
+    .filter((item) => item.reasons.length > 0)
+    .sort(
+      (a, b) =>
+        Number(b.reasons.includes("api_error") || b.reasons.includes("fallback")) -
+          Number(a.reasons.includes("api_error") || a.reasons.includes("fallback")) ||
+        (a.confidence ?? 0) - (b.confidence ?? 0)
+    );
+}
+
+/** Category choices offered to reviewers: the taxonomy, or the labels already in use. */
+export function reviewLabelOptions(calls: CallData[], taxonomy?: Taxonomy): string[] {
+  if (taxonomy) {
+    return taxonomy.categories
+      .map((c) => taxonomyPath(taxonomy, c.name))
+      .concat(OTHER_CATEGORY);
+  }
+  return Array.from(new Set(calls.flatMap((call) => call.categories)))
+    .filter((label) => !label.startsWith("UNCATEGORIZED"))
+    .sort();
+}
+
+function sameLabels(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((label) => b.includes(label));
+}
+
+/** Labels the model originally gave the call, before any override. */
+export function aiLabels(call: CallData): { categories: string[]; sentiment?: string } {
+  return {
+    categories: call.review?.aiCategories ?? call.categories,
+    sentiment: call.review?.aiSentiment ?? call.sentiment,
+  };
+}
+
+/** Marks the AI labels as confirmed. */
+export function acceptReview(call: CallData, reviewer: string): CallData {
+  const at = new Date().toISOString();
+  return {
+    ...call,
+    review: { status: "accepted", reviewedAt: at, reviewedBy: reviewer },
+    auditTrail: (call.auditTrail || []).concat({ at, by: reviewer, action: "accepted" }),
+  };
+}
+
+/**
+ * Replaces the call's labels with the reviewer's. The model's labels stay on
+ * the review and the change is appended to the audit trail.
+ */
+export function correctReview(
+  call: CallData,
+  categories: string[],
+  sentiment: string,
+  reviewer: string
+): CallData {
+  const at = new Date().toISOString();
+  const ai = aiLabels(call);
+  const aiRawCategories = call.review?.aiRawCategories ?? call.rawCategories;
+  return {
+    ...call,
+    categories,
+    rawCategories: categories,
+    sentiment,
+    review: {
+      status: "corrected",
+      reviewedAt: at,
+      reviewedBy: reviewer,
+      aiCategories: ai.categories,
+      ...(aiRawCategories ? { aiRawCategories } : {}),
+      aiSentiment: ai.sentiment,
+    },
+    auditTrail: (call.auditTrail || []).concat({
+      at,
+      by: reviewer,
+      action: "overridden",
+      ...(sameLabels(call.categories, categories)
+        ? {}
+        : { categories: { from: call.categories, to: categories } }),
+      ...(call.sentiment === sentiment
+        ? {}
+        : { sentiment: { from: call.sentiment, to: sentiment } }),
+    }),
+  };
+}
+
+/**
+ * Restores the model's labels, including its labels from before near-duplicates
+ * were merged, and returns the call to the review queue.
+ */
+export function revertReview(call: CallData, reviewer: string): CallData {
+  const ai = aiLabels(call);
+  const reverted: CallData = {
+    ...call,
+    categories: ai.categories,
+    sentiment: ai.sentiment,
+    auditTrail: (call.auditTrail || []).concat({
+      at: new Date().toISOString(),
+      by: reviewer,
+      action: "reverted",
+      ...(sameLabels(call.categories, ai.categories)
+        ? {}
+        : { categories: { from: call.categories, to: ai.categories } }),
+      ...(call.sentiment === ai.sentiment
+        ? {}
+        : { sentiment: { from: call.sentiment, to: ai.sentiment } }),
+    }),
+  };
+  if (call.review?.status === "corrected") {
+    reverted.rawCategories = call.review.aiRawCategories ?? ai.categories;
+  }
+  delete reverted.review;
+  return reverted;
+}
+
+/** How often reviewers disagreed with the model; null until a call is reviewed. */
+export function calculateReviewStats(calls: CallData[]): ReviewStats | null {
+  const reviewed = calls.filter((call) => call.review);
+  if (reviewed.length === 0) return null;
+
+  let categoryChanges = 0;
+  let sentimentChanges = 0;
+  let overridden = 0;
+  reviewed.forEach((call) => {
+    const ai = aiLabels(call);
+    const categoriesChanged = !sameLabels(ai.categories, call.categories);
+    const sentimentChanged = ai.sentiment !== call.sentiment;
+    if (categoriesChanged) categoryChanges++;
+    if (sentimentChanged) sentimentChanges++;
+    if (categoriesChanged || sentimentChanged) overridden++;
+  });
+
+  return {
+    reviewedCalls: reviewed.length,
+    overriddenCalls: overridden,
+    disagreementRate: overridden / reviewed.length,
+    categoryDisagreementRate: categoryChanges / reviewed.length,
+    sentimentDisagreementRate: sentimentChanges / reviewed.length,
+  };
+}
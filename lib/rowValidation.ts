@@ -0,0 +1,58 @@
+import * as XLSX from "xlsx";
+import { RejectedRow, RowIssueCode, RowValidationReport } from "@/types";
+
+/**
+ * Presentation of the per-row validation done before analysis: log and
+ * report lines, and the spreadsheet of rejected rows. Safe to import from
+ * client components.
+ */
+
+/** Rejected rows listed one by one in the analysis log; the rest are only counted. */
+export const MAX_LOGGED_REJECTED_ROWS = 10;
+
+export const ROW_ISSUE_DESCRIPTIONS: Record<RowIssueCode, string> = {
+  EMPTY_TRANSCRIPT: "empty transcript (row skipped)",
+  INVALID_DURATION: "non-numeric duration (set to 0)",
+  INVALID_TIMESTAMP: "unparseable timestamp (kept as text)",
+};
+
+export function describeRejectedRow(row: RejectedRow): string {
+  const location = row.sheet ? `Row ${row.rowNumber} of "${row.sheet}"` : `Row ${row.rowNumber}`;
+  return `${location}: ${row.issues.map((issue) => issue.message).join("; ")}`;
+}
+
+/** e.g. "2 rows rejected, 3 accepted with warnings", or "" when every row was clean. */
+export function summarizeRowValidation(report: RowValidationReport): string {
+  const parts: string[] = [];
+  if (report.rejectedRows.length > 0) {
+    parts.push(`${report.rejectedRows.length} row(s) rejected`);
+  }
+  if (report.warnedRows > 0) {
+    parts.push(`${report.warnedRows} accepted with warnings`);
+  }
+  return parts.join(", ");
+}
+
+/** Lines like "EMPTY_TRANSCRIPT: 2 row(s) - empty transcript (row skipped)". */
+export function describeIssueCounts(report: RowValidationReport): string[] {
+  return (Object.keys(report.issueCounts) as RowIssueCode[]).map(
+    (code) => `${code}: ${report.issueCounts[code]} row(s) - ${ROW_ISSUE_DESCRIPTIONS[code]}`
+  );
+}
+
+/**
+ * Workbook with one line per rejected row: where it was, the error codes and
+ * reasons, then the row's original columns so it can be fixed and re-uploaded.
+ */
+export function buildRejectedRowsWorkbook(report: RowValidationReport): ArrayBuffer {
+  const rows = report.rejectedRows.map((row) => ({
+    Row: row.rowNumber,
+    ...(row.sheet ? { Sheet: row.sheet } : {}),
+    "Error Codes": row.issues.map((issue) => issue.code).join("; "),
+    Reasons: row.issues.map((issue) => issue.message).join("; "),
+    ...row.values,
+  }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), "Rejected Rows");
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+}
@@ -1,4 +1,61 @@
-import { CallData, CategoryStat, AnalysisData } from "@/types";
+import { CallData, CategoryStat, AnalysisData, TokenUsage } from "@/types";
+import { collectOtherSuggestions } from "@/lib/taxonomy";
+import { aiLabels, calculateReviewStats } from "@/lib/reviewQueue";
+import { calculateCategoryAgreement, hasModelDisagreement } from "@/lib/ensemble";
+import { describeModelSwitch } from "@/lib/modelFallback";
+import { formatCost } from "@/lib/usage";
+import { describeIssueCounts, describeRejectedRow } from "@/lib/rowValidation";
+import {
+  CATEGORY_PATH_SEPARATOR,
+  categoryAncestry,
+  categoryLeaf,
+  isHierarchicalCategory,
+  splitCategoryPath,
+} from "@/lib/categoryHierarchy";
+
+/**
+ * Counts each call once per hierarchy node it falls under, so a parent's
+ * count is the number of distinct calls in any of its subcategories.
+ */
+function calculateCategoryRollups(calls: CallData[]): CategoryStat[] {
+  const nodes = new Map<string, CategoryStat>();
+
+  calls.forEach((call) => {
+    const paths = new Set<string>();
+    call.categories.forEach((category) =>
+      categoryAncestry(category).forEach((path) => paths.add(path))
+    );
+
+    const sentiment = call.sentiment?.toLowerCase() || "neutral";
+    Array.from(paths).forEach((path) => {
+      let node = nodes.get(path);
+      if (!node) {
+        const parts = splitCategoryPath(path);
+        node = {
+          category: path,
+          count: 0,
+          percentage: 0,
+          sentiment: { positive: 0, neutral: 0, negative: 0 },
+          level: parts.length - 1,
+          ...(parts.length > 1
+            ? { parent: parts.slice(0, -1).join(CATEGORY_PATH_SEPARATOR) }
+            : {}),
+        };
+        nodes.set(path, node);
+      }
+
+      node.count++;
+      if (sentiment === "parse_failed") return;
+      if (sentiment === "positive") node.sentiment.positive++;
+      else if (sentiment === "negative") node.sentiment.negative++;
+      else node.sentiment.neutral++;
+    });
+  });
+
+  return Array.from(nodes.values())
+    .map((node) => ({ ...node, percentage: (node.count / calls.length) * 100 }))
+    .sort((a, b) => (a.level || 0) - (b.level || 0) || b.count - a.count);
+}
 
 export function calculateStatistics(calls: CallData[]): AnalysisData {
   console.log("\n📊 Calculating statistics...");
@@ -36,6 +93,7 @@ export function calculateStatistics(calls: CallData[]): AnalysisData {
       stat.customers.add(call.phone);
 
       const sentiment = call.sentiment?.toLowerCase() || "neutral";
+      if (sentiment === "parse_failed") return;
       if (sentiment === "positive") stat.sentiment.positive++;
       else if (sentiment === "negative") stat.sentiment.negative++;
       else stat.sentiment.neutral++;
@@ -44,12 +102,16 @@ export function calculateStatistics(calls: CallData[]): AnalysisData {
 
   console.log(`   Found ${categoryMap.size} unique categories`);
 
+  const agreement = calculateCategoryAgreement(calls);
   const categories: CategoryStat[] = Array.from(categoryMap.entries())
     .map(([category, data]) => ({
       category,
       count: data.count,
       percentage: (data.count / calls.length) * 100,
       sentiment: data.sentiment,
+      ...(agreement[category] !== undefined
+        ? { agreementRate: agreement[category] }
+        : {}),
     }))
     .sort((a, b) => b.count - a.count);
 
@@ -76,6 +138,7 @@ export function calculateStatistics(calls: CallData[]): AnalysisData {
 
   calls.forEach((call) => {
     const sentiment = call.sentiment?.toLowerCase() || "neutral";
+    if (sentiment === "parse_failed") return;
     if (sentiment === "positive") sentimentCounts.positive++;
     else if (sentiment === "negative") sentimentCounts.negative++;
     else sentimentCounts.neutral++;
@@ -101,6 +164,40 @@ export function calculateStatistics(calls: CallData[]): AnalysisData {
   );
 
   const topCategories = categories.slice(0, 10).map((c) => c.category);
+  const otherSuggestions = collectOtherSuggestions(calls);
+  const categoryRollups = categories.some((c) => isHierarchicalCategory(c.category))
+    ? calculateCategoryRollups(calls)
+    : null;
+  if (categoryRollups) {
+    console.log(
+      `   Rolled up ${categories.length} categories into ${
+        categoryRollups.filter((c) => c.level === 0).length
+      } top-level groups`
+    );
+  }
+
+  const reviewStats = calculateReviewStats(calls);
+  if (reviewStats) {
+    console.log(
+      `   Human review: ${reviewStats.reviewedCalls} reviewed, ${
+        reviewStats.overriddenCalls
+      } overridden (${(reviewStats.disagreementRate * 100).toFixed(1)}% disagreement)`
+    );
+  }
+
+  const consensusCalls = calls.filter((call) => call.ensemble);
+  if (consensusCalls.length > 0) {
+    console.log(
+      `   Model consensus: ${
+        consensusCalls.filter(hasModelDisagreement).length
+      }/${consensusCalls.length} calls with disagreement`
+    );
+  }
+
+  const switchedCalls = calls.filter((call) => call.modelSwitch).length;
+  if (switchedCalls > 0) {
+    console.log(`   Fallback models answered ${switchedCalls} call(s)`);
+  }
 
   const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
   console.log(`✅ Statistics calculated in ${processingTime}s`);
@@ -109,6 +206,7 @@ export function calculateStatistics(calls: CallData[]): AnalysisData {
     totalCalls: calls.length,
     categorizedCalls: calls.length,
     categories,
+    ...(categoryRollups ? { categoryRollups } : {}),
     calls,
     summary: {
       answerRate: 100, // Assuming all uploaded calls were answered
@@ -117,10 +215,31 @@ export function calculateStatistics(calls: CallData[]): AnalysisData {
       sentimentDistribution: sentimentCounts,
       topCategories,
     },
+    ...(otherSuggestions.length > 0 ? { otherSuggestions } : {}),
+    ...(reviewStats ? { reviewStats } : {}),
     timestamp: new Date().toISOString(),
   };
 }
 
+/**
+ * Recomputes statistics after calls were edited (e.g. by review), keeping the
+ * run's metadata such as the timestamp, cache stats and taxonomy.
+ */
+export function recalculateStatistics(
+  data: AnalysisData,
+  calls: CallData[]
+): AnalysisData {
+  const stats = calculateStatistics(calls);
+  return {
+    ...data,
+    ...stats,
+    categoryRollups: stats.categoryRollups,
+    otherSuggestions: stats.otherSuggestions,
+    reviewStats: stats.reviewStats,
+    timestamp: data.timestamp,
+  };
+}
+
 export function generateTextReport(data: AnalysisData): string {
   console.log("\n📝 Generating text report...");
   const lines: string[] = [];
@@ -139,6 +258,18 @@ export function generateTextReport(data: AnalysisData): string {
   lines.push(
     `Average Call Duration: ${Math.round(data.summary.avgDuration)} seconds`
   );
+  if (data.promptVersion) {
+    lines.push(
+      `Prompt Profile: ${data.promptVersion.profile.label} (${data.promptVersion.profile.language})`
+    );
+  }
+  if (data.sourceSheets && data.sourceSheets.length > 1) {
+    const sheetCounts = data.sourceSheets.map(
+      (sheet) =>
+        `${sheet} (${data.calls.filter((call) => call.sourceSheet === sheet).length} calls)`
+    );
+    lines.push(`Source Sheets: ${sheetCounts.join(", ")}`);
+  }
   lines.push("");
 
   lines.push("SENTIMENT DISTRIBUTION");
@@ -184,6 +315,125 @@ export function generateTextReport(data: AnalysisData): string {
     );
   });
 
+  if (data.categoryRollups) {
+    lines.push("");
+    lines.push("CATEGORY HIERARCHY");
+    lines.push("-".repeat(100));
+    const printChildren = (parent: string | undefined) => {
+      data.categoryRollups!
+        .filter((node) => node.parent === parent)
+        .forEach((node) => {
+          const label = `${"  ".repeat(node.level || 0)}${categoryLeaf(
+            node.category
+          )}`;
+          lines.push(
+            `${label.padEnd(55)}${String(node.count).padStart(10)}${node.percentage
+              .toFixed(1)
+              .padStart(9)}`
+          );
+          printChildren(node.category);
+        });
+    };
+    printChildren(undefined);
+  }
+
+  if (data.otherSuggestions && data.otherSuggestions.length > 0) {
+    lines.push("");
+    lines.push("SUGGESTED CATEGORIES (calls filed under OTHER)");
+    lines.push("-".repeat(100));
+    data.otherSuggestions.forEach((entry) => {
+      lines.push(`${entry.suggestion.padEnd(55)}${String(entry.count).padStart(10)}`);
+    });
+  }
+
+  if (data.reviewStats) {
+    const review = data.reviewStats;
+    lines.push("");
+    lines.push("HUMAN REVIEW");
+    lines.push("-".repeat(100));
+    lines.push(`Calls reviewed:            ${review.reviewedCalls}`);
+    lines.push(`Calls overridden:          ${review.overriddenCalls}`);
+    lines.push(
+      `AI-human disagreement:     ${(review.disagreementRate * 100).toFixed(1)}% (categories ${(
+        review.categoryDisagreementRate * 100
+      ).toFixed(1)}%, sentiment ${(review.sentimentDisagreementRate * 100).toFixed(1)}%)`
+    );
+    lines.push("Statistics above use the reviewers' labels for overridden calls.");
+  }
+
+  const servedBy = new Map<string, number>();
+  data.calls.forEach((call) => {
+    if (call.modelSwitch) {
+      servedBy.set(call.modelSwitch.servedBy, (servedBy.get(call.modelSwitch.servedBy) || 0) + 1);
+    }
+  });
+  if (servedBy.size > 0) {
+    lines.push("");
+    lines.push("FALLBACK MODELS");
+    lines.push("-".repeat(100));
+    Array.from(servedBy.entries()).forEach(([model, count]) => {
+      lines.push(`${model.padEnd(55)}${`${count} call(s)`.padStart(12)}`);
+    });
+  }
+
+  const consensusCalls = data.calls.filter((call) => call.ensemble);
+  if (consensusCalls.length > 0) {
+    lines.push("");
+    lines.push("MODEL AGREEMENT");
+    lines.push("-".repeat(100));
+    lines.push(
+      `Calls where models disagree: ${
+        consensusCalls.filter(hasModelDisagreement).length
+      } of ${consensusCalls.length}`
+    );
+    lines.push(`${"Category".padEnd(55)}${"Agreement".padStart(12)}`);
+    data.categories
+      .filter((cat) => cat.agreementRate !== undefined)
+      .forEach((cat) => {
+        lines.push(
+          `${cat.category.padEnd(55)}${`${(cat.agreementRate! * 100).toFixed(1)}%`.padStart(12)}`
+        );
+      });
+  }
+
+  if (data.usage) {
+    const usageLine = (label: string, usage: TokenUsage) =>
+      `${label.padEnd(20)}${String(usage.requests).padStart(10)}${String(
+        usage.promptTokens
+      ).padStart(15)}${String(usage.completionTokens).padStart(15)}${formatCost(
+        usage.costUsd
+      ).padStart(12)}`;
+    lines.push("");
+    lines.push("TOKEN USAGE AND COST");
+    lines.push("-".repeat(100));
+    lines.push(
+      `${"".padEnd(20)}${"Requests".padStart(10)}${"Prompt".padStart(15)}${"Completion".padStart(
+        15
+      )}${"Cost".padStart(12)}`
+    );
+    lines.push(usageLine("Categorization", data.usage.categorization));
+    lines.push(usageLine("Reports", data.usage.reports));
+    lines.push(usageLine("Total", data.usage.total));
+    if (data.usage.total.estimated) {
+      lines.push("Some token counts were estimated because the provider did not report usage.");
+    }
+  }
+
+  if (data.rowValidation && Object.keys(data.rowValidation.issueCounts).length > 0) {
+    const { totalRows, acceptedRows, warnedRows, rejectedRows } = data.rowValidation;
+    lines.push("");
+    lines.push("ROW VALIDATION");
+    lines.push("-".repeat(100));
+    lines.push(
+      `${acceptedRows} of ${totalRows} rows analyzed (${warnedRows} with warnings), ${rejectedRows.length} rejected`
+    );
+    describeIssueCounts(data.rowValidation).forEach((line) => lines.push(`  ${line}`));
+    if (rejectedRows.length > 0) {
+      lines.push("Rejected rows:");
+      rejectedRows.forEach((row) => lines.push(`  ${describeRejectedRow(row)}`));
+    }
+  }
+
   lines.push("");
   lines.push("=".repeat(100));
   lines.push("END OF REPORT");
@@ -205,10 +455,24 @@ export function generateCSV(data: AnalysisData): string {
     "Date",
     "Duration (sec)",
     "Categories",
+    "Raw Categories",
     "Sentiment",
     "Outcome",
     "Call Reason",
     "AI Summary",
+    "Analysis Coverage",
+    "Suggested Categories",
+    "AI Categories",
+    "AI Sentiment",
+    "Review Status",
+    "Reviewed By",
+    "Reviewed At",
+    "Model Agreement",
+    "Fallback Model",
+    "Prompt Tokens",
+    "Completion Tokens",
+    "Estimated Cost (USD)",
+    "Source Sheet",
   ];
 
   const rows = data.calls.map((call) => [
@@ -218,10 +482,28 @@ export function generateCSV(data: AnalysisData): string {
     call.date,
     call.duration,
     call.categories.join("; "),
+    (call.rawCategories || call.categories).join("; "),
     call.sentiment || "Unknown",
     call.outcome || "Unknown",
     call.callReason || "N/A",
     call.aiAnalysis || "N/A",
+    call.analysisCoverage || "N/A",
+    (call.otherSuggestions || []).join("; "),
+    aiLabels(call).categories.join("; "),
+    aiLabels(call).sentiment || "Unknown",
+    call.review?.status || "N/A",
+    call.review?.reviewedBy || "N/A",
+    call.review?.reviewedAt || "N/A",
+    call.ensemble
+      ? hasModelDisagreement(call)
+        ? `Disagree (${call.ensemble.models.join(", ")})`
+        : "Agree"
+      : "N/A",
+    call.modelSwitch ? describeModelSwitch(call.modelSwitch) : "N/A",
+    call.usage ? call.usage.promptTokens : "N/A",
+    call.usage ? call.usage.completionTokens : "N/A",
+    call.usage?.costUsd !== undefined ? call.usage.costUsd.toFixed(6) : "N/A",
+    call.sourceSheet || "N/A",
   ]);
 
   const csvContent = [
@@ -0,0 +1,229 @@
+import { CallData, OtherSuggestion, Taxonomy, TaxonomyCategory } from "@/types";
+import { CATEGORY_PATH_SEPARATOR } from "@/lib/categoryHierarchy";
+
+/**
+ * Controlled category taxonomies. When a taxonomy is supplied the model may
+ * only use its category names, plus OTHER with a free-text suggestion for
+ * anything that does not fit. Safe to import from client components.
+ */
+
+export const OTHER_CATEGORY = "OTHER";
+
+const MAX_TAXONOMY_CATEGORIES = 200;
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+function parseLine(line: string, lineNumber: number): TaxonomyCategory {
+  const delimiter = line.includes("|") ? "|" : "\t";
+  const [name, description, parent] = line.split(delimiter).map((part) => part.trim());
+  if (!name) {
+    throw new Error(`Line ${lineNumber}: category name is missing`);
+  }
+  return {
+    name,
+    ...(description ? { description } : {}),
+    ...(parent ? { parent } : {}),
+  };
+}
+
+/**
+ * Parses a taxonomy from JSON (an array of categories or `{ categories }`) or
+ * from text with one `Name | Description | Parent` line per category (tabs
+ * also work; description and parent are optional, `#` starts a comment).
+ * Throws with a readable message when the taxonomy is invalid.
+ */
+export function parseTaxonomy(input: string): Taxonomy {
+  const text = input.trim();
+  let categories: TaxonomyCategory[];
+
+  if (text.startsWith("[") || text.startsWith("{")) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Taxonomy is not valid JSON: ${error.message}`);
+    }
+    const list = Array.isArray(parsed) ? parsed : parsed?.categories;
+    if (!Array.isArray(list)) {
+      throw new Error('Taxonomy JSON must be an array or have a "categories" array');
+    }
+    categories = list.map((entry: any, i: number) => {
+      if (typeof entry === "string") {
+        return { name: entry.trim() };
+      }
+      if (!entry || typeof entry.name !== "string" || !entry.name.trim()) {
+        throw new Error(`Category ${i + 1}: "name" is required`);
+      }
+      return {
+        name: entry.name.trim(),
+        ...(entry.description ? { description: String(entry.description).trim() } : {}),
+        ...(entry.parent ? { parent: String(entry.parent).trim() } : {}),
+      };
+    });
+  } else {
+    categories = text
+      .split(/\r?\n/)
+      .map((line, i) => ({ line: line.trim(), lineNumber: i + 1 }))
+      .filter(({ line }) => line && !line.startsWith("#"))
+      .map(({ line, lineNumber }) => parseLine(line, lineNumber));
+  }
+
+  const taxonomy = { categories };
+  const error = validateTaxonomy(taxonomy);
+  if (error) {
+    throw new Error(error);
+  }
+  return taxonomy;
+}
+
+/** Returns an error message, or null when the taxonomy is usable. */
+export function validateTaxonomy(taxonomy: Taxonomy): string | null {
+  const { categories } = taxonomy;
+  if (categories.length === 0) {
+    return "Taxonomy has no categories";
+  }
+  if (categories.length > MAX_TAXONOMY_CATEGORIES) {
+    return `Taxonomy has ${categories.length} categories; the maximum is ${MAX_TAXONOMY_CATEGORIES}`;
+  }
+
+  const byName = new Map<string, TaxonomyCategory>();
+  for (const category of categories) {
+    const key = normalizeName(category.name);
+    if (key === OTHER_CATEGORY) {
+      return `"${OTHER_CATEGORY}" is reserved and added automatically`;
+    }
+    if (key.includes(">")) {
+      return `Category "${category.name}" must not contain ">"; use the parent field for nesting`;
+    }
+    if (byName.has(key)) {
+      return `Duplicate category "${category.name}"`;
+    }
+    byName.set(key, category);
+  }
+
+  for (const category of categories) {
+    const seen = new Set<string>([normalizeName(category.name)]);
+    let parent = category.parent;
+    while (parent) {
+      const parentKey = normalizeName(parent);
+      const parentCategory = byName.get(parentKey);
+      if (!parentCategory) {
+        return `Category "${category.name}" has unknown parent "${parent}"`;
+      }
+      if (seen.has(parentKey)) {
+        return `Category "${category.name}" is part of a parent cycle`;
+      }
+      seen.add(parentKey);
+      parent = parentCategory.parent;
+    }
+  }
+
+  return null;
+}
+
+/** Every label the model may return: the taxonomy names plus OTHER. */
+export function allowedCategoryNames(taxonomy: Taxonomy): string[] {
+  return taxonomy.categories.map((c) => c.name).concat(OTHER_CATEGORY);
+}
+
+/** Full "Parent > Child" path of a taxonomy category, used as its reported label. */
+export function taxonomyPath(taxonomy: Taxonomy, name: string): string {
+  const byName = new Map<string, TaxonomyCategory>();
+  taxonomy.categories.forEach((c) => byName.set(normalizeName(c.name), c));
+
+  const path: string[] = [];
+  let category = byName.get(normalizeName(name));
+  while (category && path.length <= taxonomy.categories.length) {
+    path.unshift(category.name);
+    category = category.parent ? byName.get(normalizeName(category.parent)) : undefined;
+  }
+  return path.length > 0 ? path.join(CATEGORY_PATH_SEPARATOR) : name;
+}
+
+/** Indented outline of the taxonomy for inclusion in prompts. */
+export function describeTaxonomyForPrompt(taxonomy: Taxonomy): string {
+  const children = new Map<string, TaxonomyCategory[]>();
+  taxonomy.categories.forEach((category) => {
+    const key = category.parent ? normalizeName(category.parent) : "";
+    children.set(key, (children.get(key) || []).concat(category));
+  });
+
+  const lines: string[] = [];
+  const visit = (parentKey: string, depth: number) => {
+    (children.get(parentKey) || []).forEach((category) => {
+      lines.push(
+        `${"  ".repeat(depth)}- ${category.name}${
+          category.description ? `: ${category.description}` : ""
+        }`
+      );
+      visit(normalizeName(category.name), depth + 1);
+    });
+  };
+  visit("", 0);
+  lines.push(`- ${OTHER_CATEGORY}: Anything that does not fit the categories above`);
+  return lines.join("\n");
+}
+
+/**
+ * Maps model output onto the taxonomy's full category paths, matching names or
+ * paths regardless of case. Labels outside the taxonomy become OTHER, and
+ * their text is kept as a suggestion.
+ */
+export function applyTaxonomy(
+  categories: string[],
+  otherSuggestion: string | undefined,
+  taxonomy: Taxonomy
+): { categories: string[]; otherSuggestions: string[] } {
+  const canonical = new Map<string, string>();
+  taxonomy.categories.forEach((category) => {
+    const path = taxonomyPath(taxonomy, category.name);
+    canonical.set(normalizeName(category.name), path);
+    canonical.set(normalizeName(path), path);
+  });
+  canonical.set(OTHER_CATEGORY, OTHER_CATEGORY);
+
+  const mapped: string[] = [];
+  const suggestions: string[] = [];
+  categories.forEach((category) => {
+    const name = canonical.get(normalizeName(category));
+    if (name) {
+      if (!mapped.includes(name)) mapped.push(name);
+    } else {
+      if (!mapped.includes(OTHER_CATEGORY)) mapped.push(OTHER_CATEGORY);
+      suggestions.push(category.trim());
+    }
+  });
+
+  if (mapped.includes(OTHER_CATEGORY) && otherSuggestion?.trim()) {
+    suggestions.unshift(otherSuggestion.trim());
+  }
+
+  return {
+    categories: mapped.length > 0 ? mapped : [OTHER_CATEGORY],
+    otherSuggestions: suggestions.filter(
+      (s, i) =>
+        suggestions.findIndex((o) => normalizeName(o) === normalizeName(s)) === i
+    ),
+  };
+}
+
+/** Groups the OTHER suggestions across calls so reviewers can promote recurring ones. */
+export function collectOtherSuggestions(calls: CallData[]): OtherSuggestion[] {
+  const grouped = new Map<string, OtherSuggestion>();
+  calls.forEach((call) => {
+    (call.otherSuggestions || []).forEach((suggestion) => {
+      const key = normalizeName(suggestion);
+      const entry = grouped.get(key);
+      if (entry) {
+        entry.count++;
+        if (!entry.callIds.includes(call.id)) entry.callIds.push(call.id);
+      } else {
+        grouped.set(key, { suggestion, count: 1, callIds: [call.id] });
+      }
+    });
+  });
+
+  return Array.from(grouped.values()).sort((a, b) => b.count - a.count);
+}
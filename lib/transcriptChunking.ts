@@ -0,0 +1,128 @@
+import { AnalysisCoverage } from "@/types";
+
+export type LongTranscriptMode = "chunk" | "truncate";
+
+export interface TranscriptPlan {
+  segments: string[];
+  coverage: AnalysisCoverage;
+  /** Characters of the transcript that no segment covers. */
+  droppedChars: number;
+}
+
+const CHUNK_OVERLAP_CHARS = 200;
+const DEFAULT_MAX_CHUNKS = 12;
+
+/**
+ * Most chunks analyzed per call (`MAX_TRANSCRIPT_CHUNKS`, 0 for no limit).
+ * Each chunk is a model request, so the cap bounds the cost of one call.
+ */
+export function maxTranscriptChunks(): number {
+  const configured = Number(process.env.MAX_TRANSCRIPT_CHUNKS);
+  if (process.env.MAX_TRANSCRIPT_CHUNKS === undefined || isNaN(configured) || configured < 0) {
+    return DEFAULT_MAX_CHUNKS;
+  }
+  return configured === 0 ? Infinity : Math.max(2, Math.floor(configured));
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+function splitSpans(text: string, maxChars: number): Span[] {
+  const spans: Span[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      const window = text.substring(start, end);
+      const sentenceBreak = Math.max(
+        window.lastIndexOf(". "),
+        window.lastIndexOf("? "),
+        window.lastIndexOf("! "),
+        window.lastIndexOf("\n")
+      );
+      const breakAt =
+        sentenceBreak > maxChars / 2 ? sentenceBreak + 1 : window.lastIndexOf(" ");
+      if (breakAt > maxChars / 2) {
+        end = start + breakAt;
+      }
+    }
+
+    spans.push({ start, end });
+    if (end >= text.length) break;
+    start = Math.max(end - CHUNK_OVERLAP_CHARS, start + 1);
+  }
+
+  return spans;
+}
+
+function spanText(text: string, spans: Span[]): string[] {
+  return spans.map(({ start, end }) => text.substring(start, end).trim()).filter(Boolean);
+}
+
+/**
+ * Splits text into pieces of at most `maxChars`, preferring to break at a
+ * sentence end or whitespace. Consecutive pieces overlap slightly so a
+ * statement cut at a boundary is still seen whole by one of them.
+ */
+export function splitTranscript(text: string, maxChars: number): string[] {
+  return spanText(text, splitSpans(text, maxChars));
+}
+
+/**
+ * Decides which parts of a transcript are analyzed. Past the chunk cap, the
+ * opening and closing chunks are kept and the middle is skipped, since the
+ * end of a call often holds the complaint or the outcome.
+ */
+export function planTranscript(
+  transcript: string,
+  maxChars: number,
+  mode: LongTranscriptMode,
+  maxChunks: number = maxTranscriptChunks()
+): TranscriptPlan {
+  if (transcript.length <= maxChars) {
+    return { segments: [transcript], coverage: "full", droppedChars: 0 };
+  }
+
+  if (mode === "truncate") {
+    return {
+      segments: [`${transcript.substring(0, maxChars)}...`],
+      coverage: "truncated",
+      droppedChars: transcript.length - maxChars,
+    };
+  }
+
+  const spans = splitSpans(transcript, maxChars);
+  if (spans.length > maxChunks) {
+    const head = spans.slice(0, Math.ceil(maxChunks / 2));
+    const tail = spans.slice(spans.length - Math.floor(maxChunks / 2));
+    return {
+      segments: spanText(transcript, head.concat(tail)),
+      coverage: "truncated",
+      droppedChars: Math.max(0, tail[0].start - head[head.length - 1].end),
+    };
+  }
+  return { segments: spanText(transcript, spans), coverage: "chunked", droppedChars: 0 };
+}
+
+/** Union of chunk categories, most frequently mentioned first. */
+export function mergeChunkCategories(chunkCategories: string[][]): string[] {
+  const counts = new Map<string, { label: string; count: number; first: number }>();
+  chunkCategories.forEach((categories, chunkIndex) => {
+    categories.forEach((category) => {
+      const key = category.trim().toUpperCase();
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { label: category.trim(), count: 1, first: chunkIndex });
+      }
+    });
+  });
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.first - b.first)
+    .map((entry) => entry.label);
+}
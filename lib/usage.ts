@@ -0,0 +1,96 @@
+import { AnalysisData, AnalysisUsage, ModelPrice, TokenUsage } from "@/types";
+
+/**
+ * Token and cost totals for analyses and reports. Safe to import from client
+ * components.
+ */
+
+export function emptyUsage(): TokenUsage {
+  return { requests: 0, promptTokens: 0, completionTokens: 0 };
+}
+
+export function usageCost(
+  promptTokens: number,
+  completionTokens: number,
+  price?: ModelPrice
+): number | undefined {
+  if (!price) return undefined;
+  return (
+    (promptTokens * price.inputPerMillion +
+      completionTokens * price.outputPerMillion) /
+    1000000
+  );
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const costUsd =
+    a.costUsd === undefined && b.costUsd === undefined
+      ? undefined
+      : (a.costUsd || 0) + (b.costUsd || 0);
+  return {
+    requests: a.requests + b.requests,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    ...(costUsd !== undefined ? { costUsd } : {}),
+    ...(a.estimated || b.estimated ? { estimated: true } : {}),
+  };
+}
+
+export function sumUsage(entries: Array<TokenUsage | undefined>): TokenUsage {
+  return entries.reduce<TokenUsage>(
+    (total, entry) => (entry ? addUsage(total, entry) : total),
+    emptyUsage()
+  );
+}
+
+/**
+ * Splits the usage of a shared request evenly across the calls it covered.
+ * The first share takes the requests and any rounding remainder, so the
+ * shares add up to the original.
+ */
+export function splitUsage(usage: TokenUsage, parts: number): TokenUsage[] {
+  const share = (total: number, i: number) =>
+    Math.floor(total / parts) + (i === 0 ? total % parts : 0);
+  return Array.from({ length: parts }, (_, i) => ({
+    requests: i === 0 ? usage.requests : 0,
+    promptTokens: share(usage.promptTokens, i),
+    completionTokens: share(usage.completionTokens, i),
+    ...(usage.costUsd !== undefined ? { costUsd: usage.costUsd / parts } : {}),
+    ...(usage.estimated ? { estimated: true } : {}),
+  }));
+}
+
+export function analysisUsage(
+  categorization: TokenUsage,
+  reports: TokenUsage = emptyUsage()
+): AnalysisUsage {
+  return {
+    categorization,
+    reports,
+    total: addUsage(categorization, reports),
+  };
+}
+
+/** Adds the usage of a report generated after the analysis. */
+export function withReportUsage(
+  data: AnalysisData,
+  report: TokenUsage
+): AnalysisData {
+  const current = data.usage || analysisUsage(emptyUsage());
+  return {
+    ...data,
+    usage: analysisUsage(current.categorization, addUsage(current.reports, report)),
+  };
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(2)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+export function formatCost(usd?: number): string {
+  if (usd === undefined) return "n/a";
+  if (usd > 0 && usd < 0.01) return "< $0.01";
+  return `$${usd.toFixed(2)}`;
+}
@@ -10,9 +10,120 @@ export interface CallData {
   sentiment?: string
   outcome?: string
   categories: string[]
+  /** Labels as returned by the model, before near-duplicates were merged. */
+  rawCategories?: string[]
   aiAnalysis?: string
+  analysisCoverage?: AnalysisCoverage
+  /** Proposed category names for the parts of the call filed under OTHER. */
+  otherSuggestions?: string[]
+  confidence?: CallConfidence
+  /** True when the result came from a fallback path rather than a clean model answer. */
+  usedFallback?: boolean
+  review?: CallReview
+  /** Every reviewer action on the call, oldest first. */
+  auditTrail?: CallAuditEntry[]
+  ensemble?: EnsembleOutcome
+  /** Set when a fallback model answered because earlier models in the chain failed. */
+  modelSwitch?: ModelSwitch
+  /** Tokens spent analyzing this call in this run (absent for cached results). */
+  usage?: TokenUsage
+  /** Workbook sheet the call was read from. */
+  sourceSheet?: string
+  /** Problems found in the call's source row that did not reject it. */
+  rowIssues?: RowIssue[]
 }
 
+export type RowIssueCode = 'EMPTY_TRANSCRIPT' | 'INVALID_DURATION' | 'INVALID_TIMESTAMP'
+
+export interface RowIssue {
+  code: RowIssueCode
+  /** Errors reject the row; warnings keep it with a default value. */
+  severity: 'error' | 'warning'
+  column?: string
+  message: string
+}
+
+export interface RejectedRow {
+  /** 1-based position of the row in its sheet or file, not counting the header row. */
+  rowNumber: number
+  sheet?: string
+  issues: RowIssue[]
+  /** The row's original values, as text. */
+  values: Record<string, string>
+}
+
+export interface RowValidationReport {
+  totalRows: number
+  acceptedRows: number
+  /** Accepted rows that have warnings. */
+  warnedRows: number
+  rejectedRows: RejectedRow[]
+  issueCounts: Partial<Record<RowIssueCode, number>>
+}
+
+export interface ModelSwitch {
+  /** "provider/model" of each model that failed, in the order tried. */
+  failed: Array<{ model: string; error: string }>
+  /** "provider/model" that produced the result. */
+  servedBy: string
+}
+
+/** How the models of a consensus run voted on one call. */
+export interface EnsembleOutcome {
+  /** "provider/model" of every model that answered, primary first. */
+  models: string[]
+  /** Models that failed and did not vote. */
+  failedModels?: string[]
+  /** Number of models that proposed each category, including ones that lost the vote. */
+  categoryVotes: Record<string, number>
+  sentimentVotes: Record<string, number>
+  /** True when at least two models answered and all gave the same categories and sentiment. */
+  unanimous: boolean
+}
+
+/** Model-reported confidence (0-1) in its own labels. */
+export interface CallConfidence {
+  /** Keyed by category label. */
+  categories: Record<string, number>
+  sentiment?: number
+}
+
+/** Outcome of a human review. Corrections keep the model's original labels. */
+export interface CallReview {
+  status: 'accepted' | 'corrected'
+  reviewedAt: string
+  reviewedBy?: string
+  aiCategories?: string[]
+  /** The model's labels before near-duplicates were merged, restored on revert. */
+  aiRawCategories?: string[]
+  aiSentiment?: string
+}
+
+export interface CallAuditEntry {
+  at: string
+  by: string
+  action: 'accepted' | 'overridden' | 'reverted'
+  /** Values before and after the change; omitted when the field did not change. */
+  categories?: { from: string[]; to: string[] }
+  sentiment?: { from?: string; to?: string }
+}
+
+/** Agreement between the model and human reviewers, over reviewed calls only. */
+export interface ReviewStats {
+  reviewedCalls: number
+  overriddenCalls: number
+  /** Share of reviewed calls whose categories or sentiment were changed. */
+  disagreementRate: number
+  categoryDisagreementRate: number
+  sentimentDisagreementRate: number
+}
+
+/**
+ * How much of a transcript the model saw: all of it in one prompt, all of it
+ * split into chunks whose results were merged, or only a leading portion.
+ */
+export type AnalysisCoverage = 'full' | 'chunked' | 'truncated'
+
 export interface CategoryStat {
   category: string
   count: number
@@ -22,12 +133,26 @@ export interface CategoryStat {
     neutral: number
     negative: number
   }
+  /** Depth in the category hierarchy, 0 for top-level groups (rollups only). */
+  level?: number
+  /** Full path of the parent group, e.g. "Service > Oil Change" (rollups only). */
+  parent?: string
+  /**
+   * Consensus runs only: share of the calls where any model proposed this
+   * category in which every model did.
+   */
+  agreementRate?: number
 }
 
 export interface AnalysisData {
   totalCalls: number
   categorizedCalls: number
   categories: CategoryStat[]
+  /**
+   * One entry per node of the "A > B > C" category hierarchy, with calls and
+   * sentiment rolled up from every subcategory. Only set when labels are nested.
+   */
+  categoryRollups?: CategoryStat[]
   calls: CallData[]
   summary: {
     answerRate: number
@@ -40,9 +165,180 @@ export interface AnalysisData {
     }
     topCategories: string[]
   }
+  cacheStats?: {
+    hits: number
+    misses: number
+  }
+  taxonomy?: Taxonomy
+  otherSuggestions?: OtherSuggestion[]
+  categoryNormalization?: CategoryNormalization
+  reviewStats?: ReviewStats
+  usage?: AnalysisUsage
+  promptVersion?: PromptVersion
+  /** Workbook sheets the calls were read from, in workbook order. */
+  sourceSheets?: string[]
+  rowValidation?: RowValidationReport
   timestamp: string
 }
 
+/** Business context filled into the prompt templates. */
+export interface PromptProfile {
+  /** Built-in profile id, or "custom" when edited. */
+  id: string
+  label: string
+  /** Completes "calls for ...", e.g. "a dental practice". */
+  businessDescription: string
+  /** Tone of the generated reports. */
+  tone: string
+  /** Language of summaries and reports. */
+  language: string
+}
+
+/** The prompts an analysis was run with. */
+export interface PromptVersion {
+  /** Version of every prompt template, keyed by template name. */
+  templates: Record<string, string>
+  profile: PromptProfile
+}
+
+/** Tokens used by model requests and what they cost. */
+export interface TokenUsage {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  /** USD. Absent when none of the models used has a price. */
+  costUsd?: number
+  /** True when a provider did not report usage and the counts were estimated from text length. */
+  estimated?: boolean
+}
+
+export interface AnalysisUsage {
+  categorization: TokenUsage
+  reports: TokenUsage
+  total: TokenUsage
+}
+
+/** Result of merging near-duplicate category labels. */
+export interface CategoryNormalization {
+  /** Every raw label mapped to its canonical label. */
+  mapping: Record<string, string>
+  /** Canonical label to the other raw labels merged into it. */
+  aliases: Record<string, string[]>
+}
+
+export interface TaxonomyCategory {
+  name: string
+  description?: string
+  /** Name of the parent category; omitted for top-level categories. */
+  parent?: string
+}
+
+export interface Taxonomy {
+  categories: TaxonomyCategory[]
+}
+
+/** CallData fields read from an uploaded column. */
+export type MappedCallField =
+  | 'phone'
+  | 'customer'
+  | 'date'
+  | 'duration'
+  | 'transcript'
+  | 'callReason'
+  | 'issuesDiscussed'
+  | 'sentiment'
+  | 'outcome'
+
+/** Uploaded column name for each CallData field; unmapped fields get their defaults. */
+export type ColumnMapping = Partial<Record<MappedCallField, string>>
+
+/** A saved column mapping for the exports of one source system. */
+export interface ColumnMappingPreset {
+  name: string
+  mapping: ColumnMapping
+  updatedAt: string
+}
+
+export interface SheetSummary {
+  name: string
+  rows: number
+  columns: string[]
+}
+
+/**
+ * Which sheets of a workbook to read: the named sheets (the first sheet when
+ * empty), or 'matching' for every sheet with the same columns as the first one.
+ */
+export type SheetSelection = string[] | 'matching'
+
+export interface SkippedSheet {
+  name: string
+  reason: string
+}
+
+export interface FilePreview {
+  columns: string[]
+  /** The first rows of the file, with every value as text. */
+  sampleRows: Array<Record<string, string>>
+  totalRows: number
+  suggestedMapping: ColumnMapping
+  /** Every sheet of a workbook; absent for text formats. */
+  sheets?: SheetSummary[]
+  usedSheets?: string[]
+  skippedSheets?: SkippedSheet[]
+}
+
+/** A free-text category proposed for calls filed under OTHER, for later review. */
+export interface OtherSuggestion {
+  suggestion: string
+  count: number
+  callIds: string[]
+}
+
+export interface ModelConfig {
+  provider: string
+  model: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface ProviderCapabilities {
+  chat: boolean
+  jsonMode: boolean
+  contextWindow: number
+}
+
+/** Provider quota for a model. Omitted fields mean no limit. */
+export interface RateLimits {
+  requestsPerMinute?: number
+  requestsPerDay?: number
+  tokensPerMinute?: number
+  tokensPerDay?: number
+}
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+export interface ModelInfo {
+  value: string
+  label: string
+  limits: RateLimits
+  price?: ModelPrice
+  contextWindow?: number
+}
+
+export interface ProviderInfo {
+  id: string
+  label: string
+  capabilities: ProviderCapabilities
+  models: ModelInfo[]
+}
+
+export type CacheMode = 'use' | 'refresh' | 'bypass'
+
 export interface UploadResponse {
   success: boolean
   message: string